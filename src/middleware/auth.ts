@@ -0,0 +1,79 @@
+/**
+ * Auth Middleware
+ * 
+ * Express and Socket.IO middleware that authenticate callers with
+ * the configured token verifier.
+ * 
+ * @module middleware/auth
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import type { Socket } from "socket.io";
+import { verifyToken, AuthUser } from "../services/authService";
+import type { ErrorPayload } from "../protocol/events";
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** Authenticated caller, set by requireAuth */
+            user?: AuthUser;
+        }
+    }
+}
+
+/**
+ * Extracts a bearer token from an Authorization header
+ * 
+ * @param {string | undefined} header - Authorization header value
+ * @returns {string | null} Token or null if missing
+ */
+const getBearerToken = (header: string | undefined): string | null => {
+    if (!header || !header.startsWith("Bearer ")) {
+        return null;
+    }
+    return header.slice("Bearer ".length).trim() || null;
+};
+
+/**
+ * Express middleware requiring a valid `Authorization: Bearer <token>` header
+ * Sets `req.user` to the verified identity.
+ */
+export const requireAuth = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    const token = getBearerToken(req.headers.authorization);
+    const user = token ? await verifyToken(token) : null;
+
+    if (!user) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+    }
+
+    req.user = user;
+    next();
+};
+
+/**
+ * Socket.IO middleware verifying the token sent in the handshake
+ * (`auth: { token }`). Fills `socket.data.uid` and `socket.data.name`.
+ * Refused handshakes carry `{ code: "unauthorized" }` as error data.
+ */
+export const authenticateSocket = async (
+    socket: Socket,
+    next: (err?: Error) => void
+): Promise<void> => {
+    const token = socket.handshake.auth?.token;
+    const user = typeof token === "string" && token ? await verifyToken(token) : null;
+
+    if (!user) {
+        const data: ErrorPayload = { code: "unauthorized", message: "Unauthorized" };
+        next(Object.assign(new Error(data.message), { data }));
+        return;
+    }
+
+    socket.data.uid = user.uid;
+    socket.data.name = user.name;
+    next();
+};
@@ -0,0 +1,91 @@
+/**
+ * Protocol Middleware
+ *
+ * Socket.IO middleware enforcing the event contract: the protocol version
+ * at handshake, and the name and payload of every event a client sends.
+ *
+ * @module middleware/protocol
+ */
+
+import type { Socket } from "socket.io";
+import {
+    clientEventSchemas,
+    isClientEventName,
+    isSupportedProtocolVersion,
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+} from "../protocol/events";
+import type { ErrorPayload } from "../protocol/events";
+import { describeIssue } from "../protocol/schema";
+
+/**
+ * Events a socket may send before it is in a meeting
+ */
+const EVENTS_OUTSIDE_MEETING = new Set(["join-meeting"]);
+
+/**
+ * Socket.IO middleware refusing handshakes with an unsupported
+ * `auth.protocolVersion`; the error's `data` carries the server's version
+ */
+export const checkProtocolVersion = (socket: Socket, next: (err?: Error) => void): void => {
+    const version = socket.handshake.auth?.protocolVersion ?? MIN_PROTOCOL_VERSION;
+
+    if (!isSupportedProtocolVersion(version)) {
+        const supported = MIN_PROTOCOL_VERSION === PROTOCOL_VERSION
+            ? `${PROTOCOL_VERSION}`
+            : `${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`;
+        const data: ErrorPayload = {
+            code: "unsupported-protocol",
+            message: `Unsupported protocol version, the server speaks ${supported}`,
+            protocolVersion: PROTOCOL_VERSION,
+        };
+        next(Object.assign(new Error(data.message), { data }));
+        return;
+    }
+
+    next();
+};
+
+/**
+ * Creates the per-socket middleware checking each incoming event
+ * Unknown events, events needing a meeting the socket has not joined and
+ * payloads not matching their schema are answered with an `error` and
+ * dropped. Valid payloads are replaced by their parsed copy, without
+ * unknown fields.
+ *
+ * @param {Socket} socket - Client socket
+ * @returns {(packet: unknown[], next: (err?: Error) => void) => void} Middleware for socket.use
+ */
+export const createEventValidator = (socket: Socket) => {
+    const refuse = (error: ErrorPayload): void => {
+        socket.emit("error", error);
+    };
+
+    return (packet: unknown[], next: (err?: Error) => void): void => {
+        const event = String(packet[0]);
+
+        if (!isClientEventName(event)) {
+            refuse({ code: "unknown-event", event, message: `Unknown event ${event}` });
+            return;
+        }
+
+        if (!EVENTS_OUTSIDE_MEETING.has(event) && !socket.data.meetingId) {
+            refuse({ code: "not-in-meeting", event, message: "Not in a meeting" });
+            return;
+        }
+
+        const result = clientEventSchemas[event].parse(packet[1]);
+
+        if (!result.success) {
+            refuse({
+                code: "invalid-payload",
+                event,
+                message: `Invalid ${event}: ${describeIssue(result.issue!)}`,
+            });
+            return;
+        }
+
+        packet[1] = result.value;
+        next();
+    };
+};
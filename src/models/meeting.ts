@@ -3,10 +3,13 @@
  * 
  * Represents a video conference meeting room with chat capabilities.
  * Meetings are stored in Firestore and managed in-memory for active sessions.
+ * Chat messages are stored one per record, separately from the meeting.
  * 
  * @module models/meeting
  */
 
+import type { LanguageCode } from "../utils/language";
+
 /**
  * Interface for a meeting participant
  * @interface Participant
@@ -20,6 +23,57 @@ export interface Participant {
     socketId: string;
     /** Timestamp when user joined the meeting */
     joinedAt: Date;
+    /** Connection state; "reconnecting" during the grace period after a disconnect */
+    status?: ParticipantStatus;
+    /** Timestamp when the participant's socket disconnected */
+    disconnectedAt?: Date;
+    /** Language new messages are automatically translated to for this participant */
+    autoTranslate?: LanguageCode;
+}
+
+/**
+ * Connection state of a participant
+ */
+export type ParticipantStatus = "connected" | "reconnecting";
+
+/**
+ * Interface for a user waiting in the lobby for host admission
+ * @interface PendingParticipant
+ */
+export interface PendingParticipant {
+    /** Unique user ID from Firebase Authentication */
+    uid: string;
+    /** User's display name */
+    name: string;
+    /** Socket ID waiting to be admitted */
+    socketId: string;
+    /** Timestamp when the user asked to join */
+    requestedAt: Date;
+}
+
+/**
+ * Someone who took part in a meeting, kept after they leave
+ * @interface Attendee
+ */
+export interface Attendee {
+    uid: string;
+    /** Display name when they first joined */
+    name: string;
+    /** Timestamp of their first join */
+    joinedAt: Date;
+}
+
+/**
+ * Interface for the last message a participant has read
+ * @interface ReadPosition
+ */
+export interface ReadPosition {
+    /** ID of the last read message */
+    messageId: string;
+    /** Timestamp of that message, used to keep positions moving forward */
+    messageTimestamp: Date;
+    /** Timestamp when the participant read it */
+    readAt: Date;
 }
 
 /**
@@ -37,6 +91,191 @@ export interface ChatMessage {
     text: string;
     /** Timestamp when message was sent */
     timestamp: Date;
+    /** ID of the message this one replies to, forming a thread */
+    replyToId?: string;
+    /** User IDs mentioned with @name in the text */
+    mentions?: string[];
+    /** Recipient user ID; set only on private messages */
+    recipientId?: string;
+    /** Recipient display name; set only on private messages */
+    recipientName?: string;
+    /** Timestamp of the last edit */
+    editedAt?: Date;
+    /** Previous versions of the text, oldest first */
+    editHistory?: MessageEdit[];
+    /** Whether the message was deleted; its text is cleared */
+    deleted?: boolean;
+    /** Timestamp when the message was deleted */
+    deletedAt?: Date;
+    /** User ID who deleted the message (author or host) */
+    deletedBy?: string;
+    /** Reactions: emoji mapped to the user IDs who reacted with it */
+    reactions?: Record<string, string[]>;
+    /** Who sent the message; absent for messages written by participants */
+    senderType?: MessageSenderType;
+    /** Cached translations of the current text, by language code */
+    translations?: Partial<Record<LanguageCode, string>>;
+    /** Whether the message waits for host review; until approved only its sender sees it */
+    heldForReview?: boolean;
+}
+
+/**
+ * Translation of a chat message, as sent to clients
+ * @interface MessageTranslation
+ */
+export interface MessageTranslation {
+    messageId: string;
+    language: LanguageCode;
+    text: string;
+}
+
+/**
+ * Kind of message sender: a participant, or the in-meeting AI assistant
+ */
+export type MessageSenderType = "user" | "assistant";
+
+/**
+ * Content check run on chat messages before they are stored
+ */
+export type ModerationCheck = "profanity" | "links" | "pii" | "classifier";
+
+/**
+ * What happens to a flagged message, from least to most severe: sent
+ * unchanged, sent with the flagged text masked, held until the host
+ * approves it, or not sent at all
+ */
+export type ModerationAction = "allow" | "mask" | "hold" | "reject";
+
+/**
+ * One check that flagged a message
+ * @interface ModerationFlag
+ */
+export interface ModerationFlag {
+    check: ModerationCheck;
+    /** Action configured for the check */
+    action: ModerationAction;
+    /** Text that triggered the check, or the classifier's category */
+    matches: string[];
+}
+
+/**
+ * Audit entry of a flagged message, for the host
+ * @interface ModerationRecord
+ */
+export interface ModerationRecord {
+    /** Unique record ID */
+    id: string;
+    meetingId: string;
+    /** Stored message; absent when the message was rejected */
+    messageId?: string;
+    /** Sender */
+    userId: string;
+    userName: string;
+    /** Text as sent, before masking */
+    text: string;
+    /** Most severe action of the flags, applied to the message */
+    action: ModerationAction;
+    flags: ModerationFlag[];
+    /** Timestamp when the message was sent */
+    createdAt: Date;
+    /** Host decision on a held message */
+    review?: "approved" | "rejected";
+    /** User ID of the host who reviewed it */
+    reviewedBy?: string;
+    reviewedAt?: Date;
+}
+
+/**
+ * Task agreed during a meeting
+ * @interface ActionItem
+ */
+export interface ActionItem {
+    /** What has to be done */
+    description: string;
+    /** User ID of the participant responsible, when it could be matched */
+    assigneeUid?: string;
+    /** Name of the person responsible, as mentioned in the chat */
+    assigneeName?: string;
+    /** Due date (YYYY-MM-DD), when one was mentioned */
+    dueDate?: string;
+}
+
+/**
+ * Machine-readable summary of a meeting
+ * @interface StructuredSummary
+ */
+export interface StructuredSummary {
+    /** Main points discussed */
+    keyPoints: string[];
+    /** Decisions taken */
+    decisions: string[];
+    /** Tasks agreed, with their owners */
+    actionItems: ActionItem[];
+    /** Short topic labels */
+    topics: string[];
+}
+
+/**
+ * Why a meeting ended: the host ended it, everyone left, its scheduled time
+ * ran out, or it sat idle
+ */
+export type MeetingEndReason = "host" | "empty" | "expired" | "idle";
+
+/**
+ * State of a meeting's summary generation
+ */
+export type SummaryStatus = "pending" | "running" | "done" | "failed";
+
+/**
+ * Queued summary generation for a meeting
+ * There is at most one job per meeting; regenerating reuses it.
+ * @interface SummaryJob
+ */
+export interface SummaryJob {
+    /** Meeting to summarize (also the job's ID) */
+    meetingId: string;
+    /** Current state of the job */
+    status: SummaryStatus;
+    /** Attempts started so far */
+    attempts: number;
+    /** Attempts allowed before the job is marked as failed */
+    maxAttempts: number;
+    /** Earliest time the job may run; pushed back after a failed attempt */
+    runAfter: Date;
+    /** Worker running the job */
+    workerId?: string;
+    /** When a running job is considered abandoned, e.g. after a crash */
+    leaseExpiresAt?: Date;
+    /** Reason of the last failed attempt */
+    error?: string;
+    /** Timestamp when the job was queued */
+    createdAt: Date;
+    /** Timestamp of the last state change */
+    updatedAt: Date;
+}
+
+/**
+ * Progress of a running summary generation
+ * @interface SummaryProgress
+ */
+export interface SummaryProgress {
+    /** "map" while chunks are summarized, "reduce" while partial summaries are merged */
+    stage: "map" | "reduce";
+    /** Completed steps */
+    completed: number;
+    /** Expected steps; may grow if partial summaries need extra merging */
+    total: number;
+}
+
+/**
+ * A previous version of an edited message
+ * @interface MessageEdit
+ */
+export interface MessageEdit {
+    /** Text before the edit */
+    text: string;
+    /** Timestamp when this version was replaced */
+    editedAt: Date;
 }
 
 /**
@@ -48,18 +287,210 @@ export interface Meeting {
     meetingId: string;
     /** User ID of the meeting creator */
     createdBy: string;
+    /** User ID of the current host (the creator unless host rights were transferred) */
+    hostId: string;
     /** Timestamp when meeting was created */
     createdAt: Date;
     /** Array of current participants */
     participants: Participant[];
-    /** Chat message history */
-    messages: ChatMessage[];
-    /** AI-generated summary of the chat */
+    /** AI-generated summary of the chat; only set when generation succeeded */
     summary?: string;
+    /** Structured version of the summary, when SUMMARY_FORMAT is "structured" */
+    structuredSummary?: StructuredSummary;
+    /** State of the summary generation, if one was started */
+    summaryStatus?: SummaryStatus;
+    /** Reason the last summary generation failed */
+    summaryError?: string;
+    /** Progress of the current or last summary generation */
+    summaryProgress?: SummaryProgress;
     /** Whether the meeting is active */
     isActive: boolean;
+    /** Timestamp when the meeting ended */
+    endedAt?: Date;
+    /** Why the meeting ended */
+    endReason?: MeetingEndReason;
+    /** Title given at creation */
+    title?: string;
+    /** Planned start; joins are rejected until shortly before it */
+    scheduledStart?: Date;
+    /** Planned length in minutes */
+    durationMinutes?: number;
+    /** Time the meeting is ended automatically, from its start and duration */
+    scheduledEnd?: Date;
+    /** Last join, leave or chat message (or the planned start), used to end idle meetings */
+    lastActivityAt?: Date;
+    /** Recurring series this meeting is an occurrence of */
+    seriesId?: string;
+    /** Position of the occurrence in its series, starting at 0 */
+    occurrenceIndex?: number;
     /** Maximum number of participants allowed */
     maxParticipants: number;
+    /** Whether the host has locked the meeting against new joins */
+    isLocked: boolean;
+    /** User IDs removed by the host, who may not rejoin */
+    bannedUids: string[];
+    /** User IDs the host has stopped from chatting */
+    mutedUids: string[];
+    /** Whether joins must be admitted by the host from a lobby */
+    lobbyEnabled: boolean;
+    /** Users waiting in the lobby */
+    pendingParticipants: PendingParticipant[];
+    /** Whether participants may use the AI assistant commands (/summarize, /ask) */
+    assistantEnabled: boolean;
+    /** Everyone who joined the meeting, including those who already left */
+    attendees: Attendee[];
+    /** Preferred language; summaries and assistant replies are written in it */
+    language: LanguageCode;
+    /** Last read message of each participant, keyed by user ID */
+    readPositions: Record<string, ReadPosition>;
+    /** scrypt hash of the meeting passcode; never sent to clients */
+    passcodeHash?: string;
+}
+
+/**
+ * How often a recurring meeting repeats
+ */
+export type RecurrenceFrequency = "daily" | "weekly";
+
+/**
+ * Repetition rule of a meeting series
+ * @interface RecurrenceRule
+ */
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    /** Days or weeks between two occurrences */
+    interval: number;
+    /** IANA time zone whose wall-clock start time is kept, across daylight saving changes */
+    timeZone: string;
+    /** Number of occurrences; unlimited when absent */
+    count?: number;
+    /** No occurrence starts after this time */
+    until?: Date;
+}
+
+/**
+ * A recurring meeting: one stable join code for every occurrence
+ * Each occurrence is a meeting of its own, with its own chat and summary,
+ * created when the first person joins it.
+ * @interface MeetingSeries
+ */
+export interface MeetingSeries {
+    /** Unique 8-digit join code, shared by every occurrence */
+    seriesId: string;
+    /** User ID of the creator, who hosts every occurrence */
+    createdBy: string;
+    /** Creator's display name */
+    creatorName: string;
+    /** Timestamp when the series was created */
+    createdAt: Date;
+    title: string;
+    /** Start of the first occurrence */
+    firstStart: Date;
+    /** Length of each occurrence in minutes */
+    durationMinutes: number;
+    recurrence: RecurrenceRule;
+    /** Settings copied to every occurrence; the default language is used when absent */
+    lobbyEnabled: boolean;
+    language?: LanguageCode;
+    /** scrypt hash of the passcode of every occurrence; never sent to clients */
+    passcodeHash?: string;
+    /** Meeting of the most recent occurrence created */
+    currentMeetingId?: string;
+    /** Index of that occurrence */
+    currentOccurrenceIndex?: number;
+}
+
+/**
+ * An occurrence of a series, as listed in the series view
+ * @interface SeriesOccurrence
+ */
+export interface SeriesOccurrence {
+    meetingId: string;
+    occurrenceIndex: number;
+    scheduledStart: Date | null;
+    scheduledEnd: Date | null;
+    isActive: boolean;
+    endedAt: Date | null;
+    attendeeCount: number;
+    summaryStatus: SummaryStatus | null;
+    summary: string | null;
+    structuredSummary: StructuredSummary | null;
+}
+
+/**
+ * A page of chat history, ordered oldest to newest
+ * @interface MessagePage
+ */
+export interface MessagePage {
+    /** Messages in this page */
+    messages: ChatMessage[];
+    /** Cursor to pass as `before` to load older messages, null when there are none */
+    nextCursor: string | null;
+}
+
+/**
+ * Entry of a user's meeting index: a meeting they created or joined
+ * @interface MeetingParticipation
+ */
+export interface MeetingParticipation {
+    uid: string;
+    meetingId: string;
+    /** Creation time of the meeting; history is sorted and filtered by it */
+    meetingCreatedAt: Date;
+    /** Whether the user created the meeting */
+    isCreator: boolean;
+    /** First time the user joined; absent if they created it but never joined */
+    joinedAt?: Date;
+    /** Most recent join, including reconnections */
+    lastJoinedAt?: Date;
+}
+
+/**
+ * A meeting in a user's history
+ * @interface MeetingHistoryEntry
+ */
+export interface MeetingHistoryEntry {
+    meetingId: string;
+    createdAt: Date;
+    createdBy: string;
+    hostId: string;
+    isActive: boolean;
+    isCreator: boolean;
+    /** Series the meeting belongs to, for occurrences of a recurring meeting */
+    seriesId: string | null;
+    joinedAt: Date | null;
+    lastJoinedAt: Date | null;
+    /** Number of people who joined */
+    attendeeCount: number;
+    summaryStatus: SummaryStatus | null;
+    summary: string | null;
+}
+
+/**
+ * A page of a user's meeting history, newest first
+ * @interface MeetingHistoryPage
+ */
+export interface MeetingHistoryPage {
+    meetings: MeetingHistoryEntry[];
+    /** Cursor to pass as `before` to load older meetings, null when there are none */
+    nextCursor: string | null;
+}
+
+/**
+ * A search match in a meeting's chat or summary
+ * @interface MeetingSearchHit
+ */
+export interface MeetingSearchHit {
+    meetingId: string;
+    meetingCreatedAt: Date;
+    /** Where the match was found */
+    source: "message" | "summary";
+    /** Matching message; only for message hits */
+    messageId?: string;
+    userName?: string;
+    timestamp?: Date;
+    /** Text around the match */
+    snippet: string;
 }
 
 /**
@@ -71,6 +502,44 @@ export interface MeetingCreateData {
     createdBy: string;
     /** Creator's display name */
     creatorName: string;
+    /** Hold joins in a lobby until the host admits them */
+    lobbyEnabled?: boolean;
+    /** Passcode required to join; stored hashed */
+    passcode?: string;
+    /** Passcode that is already hashed, e.g. the one of a meeting series */
+    passcodeHash?: string;
+    /** Preferred language of the meeting */
+    language?: LanguageCode;
+    /** Title of the meeting */
+    title?: string;
+    /** Planned start; omitted for meetings that start right away */
+    scheduledStart?: Date;
+    /** Planned length in minutes; the meeting is ended once it is over */
+    durationMinutes?: number;
+    /** Series the meeting is an occurrence of */
+    seriesId?: string;
+    /** Position of the occurrence in its series */
+    occurrenceIndex?: number;
+}
+
+/**
+ * Type for meeting series creation data
+ * @typedef SeriesCreateData
+ */
+export interface SeriesCreateData {
+    /** User ID of the creator */
+    createdBy: string;
+    /** Creator's display name */
+    creatorName: string;
+    title: string;
+    /** Start of the first occurrence */
+    firstStart: Date;
+    durationMinutes: number;
+    recurrence: RecurrenceRule;
+    lobbyEnabled?: boolean;
+    /** Passcode of every occurrence; stored hashed */
+    passcode?: string;
+    language?: LanguageCode;
 }
 
 /**
@@ -86,4 +555,8 @@ export interface JoinMeetingData {
     name: string;
     /** Socket ID for real-time communication */
     socketId: string;
+    /** Passcode, for passcode-protected meetings */
+    passcode?: string;
+    /** Signed invite token, accepted instead of the passcode */
+    inviteToken?: string;
 }
@@ -0,0 +1,309 @@
+/**
+ * Socket Events
+ *
+ * The Socket.IO contract between the chat server and its clients: the
+ * protocol version, every client-to-server event with the schema its payload
+ * is checked against, every server-to-client event with its payload type,
+ * and the codes of the errors the server sends back.
+ *
+ * @module protocol/events
+ */
+
+import { isValidMeetingId, isValidMessage, isValidReaction, isValidSeriesId } from "../utils/validation";
+import { isLanguageCode, LanguageCode } from "../utils/language";
+import {
+    boolean,
+    empty,
+    Infer,
+    nullable,
+    number,
+    object,
+    optional,
+    Schema,
+    string,
+} from "./schema";
+import type {
+    ChatMessage,
+    MeetingEndReason,
+    MessagePage,
+    MessageTranslation,
+    ModerationAction,
+    ModerationCheck,
+    ModerationRecord,
+    Participant,
+    PendingParticipant,
+    ReadPosition,
+    StructuredSummary,
+    SummaryProgress,
+} from "../models/meeting";
+
+/**
+ * Version of this contract, sent by clients in the handshake
+ * (`auth: { token, protocolVersion }`). Raised when a change breaks clients.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Oldest version the server still accepts; clients that send no version
+ * are taken to speak this one
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Checks whether the server accepts a client's protocol version
+ *
+ * @param {unknown} version - Version sent in the handshake
+ * @returns {boolean} True if supported
+ */
+export const isSupportedProtocolVersion = (version: unknown): version is number => {
+    return typeof version === "number" &&
+        Number.isInteger(version) &&
+        version >= MIN_PROTOCOL_VERSION &&
+        version <= PROTOCOL_VERSION;
+};
+
+const meetingId = string("a 6-digit meeting ID", isValidMeetingId);
+const id = string("an ID of 1 to 128 characters", (value) => value.length > 0 && value.length <= 128);
+const messageText = string("a message of 1 to 1000 characters", isValidMessage);
+const language = string<LanguageCode>("a supported language code", isLanguageCode);
+
+/**
+ * Payload schema of every event clients may send
+ */
+export const clientEventSchemas = {
+    /** Joins a meeting, or the current occurrence of a series */
+    "join-meeting": object({
+        meetingId: string("a 6-digit meeting ID or 8-digit series ID", (value) =>
+            isValidMeetingId(value) || isValidSeriesId(value)
+        ),
+        passcode: optional(string()),
+        inviteToken: optional(string()),
+    }),
+    /** Posts to the joined meeting; `meetingId` is optional and must match it */
+    "send-message": object({
+        meetingId: optional(meetingId),
+        text: messageText,
+        replyToId: optional(id),
+    }),
+    "send-private-message": object({ recipientId: id, text: messageText }),
+    "edit-message": object({ messageId: id, text: messageText }),
+    "delete-message": object({ messageId: id }),
+    "react-message": object({
+        messageId: id,
+        emoji: string("an emoji of 1 to 16 characters without spaces", isValidReaction),
+    }),
+    "typing-start": empty,
+    "typing-stop": empty,
+    "mark-read": object({ messageId: id }),
+    "load-history": object({
+        before: optional(id),
+        limit: optional(number("a whole number from 1 to 100", (value) =>
+            Number.isInteger(value) && value >= 1 && value <= 100
+        )),
+    }),
+    "admit": object({ uid: id }),
+    "deny": object({ uid: id }),
+    "kick-participant": object({ uid: id }),
+    "mute-participant": object({ uid: id, muted: boolean }),
+    "lock-meeting": object({ locked: boolean }),
+    "set-assistant": object({ enabled: boolean }),
+    "transfer-host": object({ uid: id }),
+    "translate-message": object({ messageId: id, language }),
+    "set-auto-translate": object({ language: nullable(language) }),
+    "review-message": object({ recordId: id, approve: boolean }),
+} satisfies Record<string, Schema<unknown>>;
+
+/**
+ * Name of an event clients may send
+ */
+export type ClientEventName = keyof typeof clientEventSchemas;
+
+/**
+ * Payload of a client event
+ */
+export type ClientEventPayload<E extends ClientEventName> = Infer<(typeof clientEventSchemas)[E]>;
+
+/**
+ * Client-to-server events, for typing Socket.IO sockets on both ends
+ */
+export type ClientToServerEvents = {
+    [E in ClientEventName]: [ClientEventPayload<E>] extends [void]
+        ? () => void
+        : (data: ClientEventPayload<E>) => void;
+};
+
+/**
+ * Checks whether a client event is part of the contract
+ *
+ * @param {string} event - Event name
+ * @returns {boolean} True if the server handles it
+ */
+export const isClientEventName = (event: string): event is ClientEventName => {
+    return Object.prototype.hasOwnProperty.call(clientEventSchemas, event);
+};
+
+/**
+ * Reason the server refused a connection or an event
+ * - `unsupported-protocol`: handshake with a protocol version the server does not speak
+ * - `unauthorized`: handshake without a valid token
+ * - `invalid-payload`: payload does not match the event's schema
+ * - `unknown-event`: event not in the contract
+ * - `not-in-meeting`: event needs a joined meeting, or names another meeting
+ * - `rejected`: refused by a meeting rule (not the host, muted, not found, ...)
+ * - `internal-error`: the server failed; trying again may work
+ */
+export type ErrorCode =
+    | "unsupported-protocol"
+    | "unauthorized"
+    | "invalid-payload"
+    | "unknown-event"
+    | "not-in-meeting"
+    | "rejected"
+    | "internal-error";
+
+/**
+ * Payload of `error` and `join-error`, and `data` of handshake errors
+ * @interface ErrorPayload
+ */
+export interface ErrorPayload {
+    code: ErrorCode;
+    message: string;
+    /** Client event that was refused */
+    event?: string;
+    /** When to try again, for limits */
+    retryAfterMs?: number;
+    /** Protocol version of the server, on `unsupported-protocol` */
+    protocolVersion?: number;
+}
+
+/**
+ * A participant who joined, left or was removed, and how many remain
+ * @interface ParticipantCountPayload
+ */
+export interface ParticipantCountPayload {
+    uid: string;
+    name: string;
+    participantCount: number;
+}
+
+/**
+ * A user identified by uid and display name
+ * @interface UserPayload
+ */
+export interface UserPayload {
+    uid: string;
+    name: string;
+}
+
+/**
+ * Meeting state sent to a socket that joined
+ * @interface JoinedMeetingPayload
+ */
+export interface JoinedMeetingPayload extends MessagePage {
+    meetingId: string;
+    participants: Participant[];
+    createdBy: string;
+    hostId: string;
+    isLocked: boolean;
+    mutedUids: string[];
+    assistantEnabled: boolean;
+    language: LanguageCode;
+    title: string | null;
+    scheduledStart: Date | null;
+    scheduledEnd: Date | null;
+    seriesId: string | null;
+    /** Lobby queue, only filled for the host */
+    pendingParticipants: PendingParticipant[];
+    readPositions: Record<string, ReadPosition>;
+    typing: UserPayload[];
+}
+
+/**
+ * Outcome of the moderation of one of the client's messages
+ * @interface MessageModeratedPayload
+ */
+export interface MessageModeratedPayload {
+    action: Exclude<ModerationAction, "allow">;
+    checks: ModerationCheck[];
+    /** Masked message, as broadcast */
+    messageId?: string;
+    /** Held message, only visible to its sender until reviewed */
+    message?: ChatMessage;
+}
+
+/**
+ * Summary of an ended meeting, once its job finished
+ * @interface SummaryReadyPayload
+ */
+export interface SummaryReadyPayload {
+    meetingId: string;
+    status: "done" | "failed";
+    summary?: string;
+    structuredSummary?: StructuredSummary;
+    error?: string;
+}
+
+/**
+ * An event the server dropped for going over a limit
+ * @interface RateLimitedPayload
+ */
+export interface RateLimitedPayload {
+    event: string;
+    reason: "rate" | "duplicate";
+    message: string;
+    retryAfterMs: number;
+}
+
+/**
+ * Server-to-client events
+ * @interface ServerToClientEvents
+ */
+export interface ServerToClientEvents {
+    "joined-meeting": (data: JoinedMeetingPayload) => void;
+    "join-error": (data: ErrorPayload) => void;
+    "lobby-waiting": (data: { meetingId: string }) => void;
+    "join-denied": (data: { meetingId: string }) => void;
+    "user-joined": (data: ParticipantCountPayload) => void;
+    "user-left": (data: ParticipantCountPayload) => void;
+    "participant-reconnecting": (data: UserPayload) => void;
+    "participant-reconnected": (data: UserPayload) => void;
+    "new-message": (message: ChatMessage) => void;
+    "private-message": (message: ChatMessage) => void;
+    "message-updated": (message: ChatMessage) => void;
+    "mentioned": (data: { meetingId: string; messageId: string; from: UserPayload; text: string }) => void;
+    "message-translated": (translation: MessageTranslation) => void;
+    "auto-translate-set": (data: { language: LanguageCode | null }) => void;
+    "typing": (data: { users: UserPayload[] }) => void;
+    "read-receipt": (data: { uid: string; messageId: string; readAt: Date }) => void;
+    "history": (page: MessagePage) => void;
+    /** Host only */
+    "join-request": (data: UserPayload) => void;
+    /** Host only */
+    "join-request-cancelled": (data: { uid: string }) => void;
+    "kicked": (data: { meetingId: string }) => void;
+    "participant-kicked": (data: ParticipantCountPayload) => void;
+    "participant-muted": (data: { uid: string; muted: boolean }) => void;
+    "meeting-locked": (data: { locked: boolean }) => void;
+    "assistant-toggled": (data: { enabled: boolean }) => void;
+    "host-changed": (data: { hostId: string; name: string }) => void;
+    "meeting-ended": (data: { reason: MeetingEndReason }) => void;
+    "summary-progress": (data: SummaryProgress & { meetingId: string }) => void;
+    "summary-ready": (data: SummaryReadyPayload) => void;
+    "message-moderated": (data: MessageModeratedPayload) => void;
+    /** Host only */
+    "moderation-flagged": (data: { record: ModerationRecord }) => void;
+    /** Host only */
+    "moderation-reviewed": (data: { record: ModerationRecord }) => void;
+    "rate-limited": (data: RateLimitedPayload) => void;
+    "error": (data: ErrorPayload) => void;
+}
+
+/**
+ * Name of an event the server sends
+ */
+export type ServerEventName = keyof ServerToClientEvents;
+
+/**
+ * Payload of a server event
+ */
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
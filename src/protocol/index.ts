@@ -0,0 +1,52 @@
+/**
+ * Chat Protocol
+ *
+ * Public entry point of the Socket.IO contract, importable by clients as
+ * `joinus-chat/protocol`. It only depends on the models and on pure
+ * validation helpers, so it runs in browsers as well.
+ *
+ * @module protocol
+ */
+
+export {
+    PROTOCOL_VERSION,
+    MIN_PROTOCOL_VERSION,
+    isSupportedProtocolVersion,
+    clientEventSchemas,
+    isClientEventName,
+} from "./events";
+export type {
+    ClientEventName,
+    ClientEventPayload,
+    ClientToServerEvents,
+    ServerEventName,
+    ServerEventPayload,
+    ServerToClientEvents,
+    ErrorCode,
+    ErrorPayload,
+    JoinedMeetingPayload,
+    MessageModeratedPayload,
+    ParticipantCountPayload,
+    RateLimitedPayload,
+    SummaryReadyPayload,
+    UserPayload,
+} from "./events";
+export { describeIssue } from "./schema";
+export type { Infer, Schema, SchemaIssue, SchemaResult } from "./schema";
+export type {
+    ChatMessage,
+    MeetingEndReason,
+    MessagePage,
+    MessageTranslation,
+    ModerationAction,
+    ModerationCheck,
+    ModerationFlag,
+    ModerationRecord,
+    Participant,
+    PendingParticipant,
+    ReadPosition,
+    StructuredSummary,
+    ActionItem,
+    SummaryProgress,
+} from "../models/meeting";
+export type { LanguageCode } from "../utils/language";
@@ -0,0 +1,176 @@
+/**
+ * Payload Schemas
+ *
+ * A small runtime schema library for socket event payloads. The TypeScript
+ * type of a payload is inferred from its schema, so the static contract and
+ * the checks applied to incoming data cannot drift apart.
+ *
+ * @module protocol/schema
+ */
+
+/**
+ * Where a value failed its schema and what was expected there
+ * @interface SchemaIssue
+ */
+export interface SchemaIssue {
+    /** Dotted path of the field, empty for the value itself */
+    path: string;
+    /** Description of the accepted values, e.g. "a boolean" */
+    expected: string;
+}
+
+/**
+ * Result of checking a value against a schema
+ * @interface SchemaResult
+ */
+export interface SchemaResult<T> {
+    success: boolean;
+    /** The value, typed, without unknown object fields */
+    value?: T;
+    issue?: SchemaIssue;
+}
+
+/**
+ * Runtime check of a value, carrying the type it guarantees
+ * @interface Schema
+ */
+export interface Schema<T> {
+    /** Description of the accepted values, used in error messages */
+    readonly expected: string;
+    /** Whether an object field with this schema may be left out */
+    readonly optional?: boolean;
+    parse(value: unknown): SchemaResult<T>;
+}
+
+/**
+ * Type guaranteed by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+    [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Object type described by a shape, with optional fields marked as such
+ */
+export type ObjectOf<S extends Shape> = Simplify<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/**
+ * Builds a schema for values accepted as they are
+ */
+const define = <T>(expected: string, accepts: (value: unknown) => boolean): Schema<T> => ({
+    expected,
+    parse: (value) => accepts(value)
+        ? { success: true, value: value as T }
+        : { success: false, issue: { path: "", expected } },
+});
+
+/**
+ * Strings, optionally narrowed by a check
+ *
+ * @param {string} [expected] - Description of the accepted strings
+ * @param {(value: string) => boolean} [check] - Extra check on the string
+ * @returns {Schema<T>} String schema
+ */
+export const string = <T extends string = string>(
+    expected: string = "a string",
+    check: (value: string) => boolean = () => true
+): Schema<T> => define<T>(expected, (value) => typeof value === "string" && check(value));
+
+/**
+ * Finite numbers, optionally narrowed by a check
+ *
+ * @param {string} [expected] - Description of the accepted numbers
+ * @param {(value: number) => boolean} [check] - Extra check on the number
+ * @returns {Schema<number>} Number schema
+ */
+export const number = (
+    expected: string = "a number",
+    check: (value: number) => boolean = () => true
+): Schema<number> => define<number>(expected, (value) => typeof value === "number" && Number.isFinite(value) && check(value));
+
+/**
+ * true or false
+ */
+export const boolean: Schema<boolean> = define<boolean>("a boolean", (value) => typeof value === "boolean");
+
+/**
+ * No payload; whatever the client sends is ignored
+ */
+export const empty: Schema<void> = {
+    expected: "nothing",
+    parse: () => ({ success: true, value: undefined }),
+};
+
+/**
+ * Also accepts null
+ *
+ * @param {Schema<T>} schema - Schema of the other values
+ * @returns {Schema<T | null>} Nullable schema
+ */
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+    expected: `${schema.expected} or null`,
+    parse: (value) => value === null ? { success: true, value: null } : schema.parse(value),
+});
+
+/**
+ * Marks an object field as optional; a missing or undefined field passes
+ *
+ * @param {Schema<T>} schema - Schema of the field when present
+ * @returns {Schema<T> & {optional: true}} Optional schema
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T> & { optional: true } => ({
+    ...schema,
+    optional: true,
+    parse: (value) => value === undefined ? { success: true } : schema.parse(value),
+});
+
+/**
+ * Objects with the given fields; fields not in the shape are dropped
+ *
+ * @param {S} shape - Schema of each field
+ * @returns {Schema<ObjectOf<S>>} Object schema
+ */
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+    expected: "an object",
+    parse: (value) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return { success: false, issue: { path: "", expected: "an object" } };
+        }
+
+        const parsed: Record<string, unknown> = {};
+
+        for (const [key, schema] of Object.entries(shape)) {
+            const result = schema.parse((value as Record<string, unknown>)[key]);
+
+            if (!result.success) {
+                const { path, expected } = result.issue!;
+                return { success: false, issue: { path: path ? `${key}.${path}` : key, expected } };
+            }
+
+            if (result.value !== undefined) {
+                parsed[key] = result.value;
+            }
+        }
+
+        return { success: true, value: parsed as ObjectOf<S> };
+    },
+});
+
+/**
+ * Describes a failed check for an error message
+ *
+ * @param {SchemaIssue} issue - Failed check
+ * @returns {string} e.g. "text must be a message of 1 to 1000 characters"
+ */
+export const describeIssue = (issue: SchemaIssue): string => {
+    return `${issue.path || "payload"} must be ${issue.expected}`;
+};
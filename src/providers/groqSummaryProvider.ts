@@ -0,0 +1,50 @@
+/**
+ * Groq Summary Provider
+ * 
+ * SummaryProvider backed by the Groq cloud API.
+ * 
+ * @module providers/groqSummaryProvider
+ */
+
+import Groq from "groq-sdk";
+import type { CompletionOptions, SummaryProvider } from "./summaryProvider";
+
+/**
+ * Creates a Groq-backed provider
+ * The client is created on first use, so a missing key only fails summaries.
+ * 
+ * @param {string} apiKey - Groq API key
+ * @param {string} model - Model name, e.g. llama-3.1-8b-instant
+ * @returns {SummaryProvider} Provider instance
+ */
+export const createGroqSummaryProvider = (apiKey: string, model: string): SummaryProvider => {
+    let groq: Groq | null = null;
+
+    return {
+        name: "groq",
+        model,
+
+        async complete(prompt: string, options: CompletionOptions): Promise<string> {
+            if (!apiKey) {
+                throw Object.assign(new Error("GROQ_API_KEY is missing in environment variables"), { status: 401 });
+            }
+
+            groq = groq || new Groq({ apiKey, maxRetries: 0 });
+
+            const chatCompletion = await groq.chat.completions.create({
+                messages: [{ role: "user", content: prompt }],
+                model,
+                temperature: options.temperature,
+                max_tokens: options.maxTokens,
+                ...(options.json ? { response_format: { type: "json_object" as const } } : {}),
+            });
+
+            const content = chatCompletion.choices[0]?.message?.content;
+
+            if (!content) {
+                throw new Error("Groq returned an empty completion");
+            }
+            return content;
+        },
+    };
+};
@@ -0,0 +1,40 @@
+/**
+ * Mock Summary Provider
+ * 
+ * Offline SummaryProvider returning deterministic text derived from the
+ * prompt, so the summary flow can run without network access or API keys.
+ * 
+ * @module providers/mockSummaryProvider
+ */
+
+import { createHash } from "crypto";
+import type { CompletionOptions, SummaryProvider } from "./summaryProvider";
+
+/**
+ * Creates a mock provider
+ * The same prompt always produces the same completion; JSON requests get a
+ * valid structured summary.
+ * 
+ * @param {string} model - Model name reported by the provider
+ * @returns {SummaryProvider} Provider instance
+ */
+export const createMockSummaryProvider = (model: string): SummaryProvider => ({
+    name: "mock",
+    model,
+
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        const fingerprint = createHash("sha256").update(prompt).digest("hex").slice(0, 8);
+        const lines = prompt.split("\n").filter((line) => line.trim()).length;
+
+        if (options.json) {
+            return JSON.stringify({
+                keyPoints: [`Resumen simulado de ${lines} líneas de entrada`],
+                decisions: [],
+                actionItems: [],
+                topics: [`huella ${fingerprint}`],
+            });
+        }
+
+        return `Resumen simulado (${lines} líneas de entrada, huella ${fingerprint}).`;
+    },
+});
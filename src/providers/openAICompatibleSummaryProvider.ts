@@ -0,0 +1,66 @@
+/**
+ * OpenAI-Compatible Summary Provider
+ * 
+ * SummaryProvider for any server exposing the OpenAI chat completions API,
+ * such as Ollama, vLLM or LM Studio running locally.
+ * 
+ * @module providers/openAICompatibleSummaryProvider
+ */
+
+import type { CompletionOptions, SummaryProvider } from "./summaryProvider";
+
+/**
+ * Maximum time to wait for one completion
+ */
+const REQUEST_TIMEOUT_MS = 120000;
+
+/**
+ * Creates a provider calling `POST {baseUrl}/chat/completions`
+ * 
+ * @param {string} baseUrl - API base URL, e.g. http://localhost:11434/v1
+ * @param {string} apiKey - Bearer token; may be empty for local servers
+ * @param {string} model - Model name
+ * @returns {SummaryProvider} Provider instance
+ */
+export const createOpenAICompatibleSummaryProvider = (
+    baseUrl: string,
+    apiKey: string,
+    model: string
+): SummaryProvider => ({
+    name: "openai",
+    model,
+
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: "user", content: prompt }],
+                temperature: options.temperature,
+                max_tokens: options.maxTokens,
+                ...(options.json ? { response_format: { type: "json_object" } } : {}),
+            }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => "");
+            throw Object.assign(
+                new Error(`Completion request failed with status ${response.status}: ${detail.slice(0, 200)}`),
+                { status: response.status }
+            );
+        }
+
+        const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+        const content = body.choices?.[0]?.message?.content;
+
+        if (!content) {
+            throw new Error("Completion response has no content");
+        }
+        return content;
+    },
+});
@@ -0,0 +1,99 @@
+/**
+ * Summary Provider
+ * 
+ * LLM backend used to generate meeting summaries. The concrete provider
+ * is selected through the SUMMARY_PROVIDER environment variable and the
+ * model through SUMMARY_MODEL, so summaries can run against Groq, a local
+ * OpenAI-compatible server, or a deterministic offline mock.
+ * 
+ * @module providers/summaryProvider
+ */
+
+import dotenv from "dotenv";
+import { createGroqSummaryProvider } from "./groqSummaryProvider";
+import { createOpenAICompatibleSummaryProvider } from "./openAICompatibleSummaryProvider";
+import { createMockSummaryProvider } from "./mockSummaryProvider";
+
+dotenv.config();
+
+/**
+ * Options of a single completion request
+ * @interface CompletionOptions
+ */
+export interface CompletionOptions {
+    /** Maximum number of tokens to generate */
+    maxTokens: number;
+    /** Sampling temperature */
+    temperature: number;
+    /** Ask the model to answer with a single JSON object */
+    json?: boolean;
+}
+
+/**
+ * Text completion backend
+ * @interface SummaryProvider
+ */
+export interface SummaryProvider {
+    /** Provider name, for logs */
+    readonly name: string;
+    /** Model used for completions */
+    readonly model: string;
+    /**
+     * Completes a prompt
+     * Errors carrying an HTTP `status` of 4xx (other than 408 and 429) are not retried.
+     */
+    complete(prompt: string, options: CompletionOptions): Promise<string>;
+}
+
+/**
+ * Supported summary providers
+ * - groq: Groq cloud API, requires GROQ_API_KEY (default)
+ * - openai: any OpenAI-compatible chat completions endpoint at LLM_BASE_URL (Ollama, vLLM, LM Studio...)
+ * - mock: deterministic offline output, for tests and development
+ */
+export type SummaryProviderName = "groq" | "openai" | "mock";
+
+let provider: SummaryProvider | null = null;
+
+/**
+ * Returns the configured summary provider, creating it on first use
+ * 
+ * @returns {SummaryProvider} Active provider
+ * @throws {Error} If SUMMARY_PROVIDER is unknown
+ */
+export const getSummaryProvider = (): SummaryProvider => {
+    if (!provider) {
+        const name = (process.env.SUMMARY_PROVIDER || "groq") as SummaryProviderName;
+        const model = process.env.SUMMARY_MODEL;
+
+        switch (name) {
+            case "groq":
+                provider = createGroqSummaryProvider(process.env.GROQ_API_KEY || "", model || "llama-3.1-8b-instant");
+                break;
+            case "openai":
+                provider = createOpenAICompatibleSummaryProvider(
+                    process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+                    process.env.LLM_API_KEY || "",
+                    model || "llama3.1"
+                );
+                break;
+            case "mock":
+                provider = createMockSummaryProvider(model || "mock");
+                break;
+            default:
+                throw new Error(`Unknown summary provider: ${name}`);
+        }
+
+        console.log(`🤖 Using ${name} summary provider (model ${provider.model})`);
+    }
+    return provider;
+};
+
+/**
+ * Replaces the active provider (useful for tests)
+ * 
+ * @param {SummaryProvider} summaryProvider - Provider to use
+ */
+export const setSummaryProvider = (summaryProvider: SummaryProvider): void => {
+    provider = summaryProvider;
+};
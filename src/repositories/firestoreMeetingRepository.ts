@@ -0,0 +1,365 @@
+/**
+ * Firestore Meeting Repository
+ * 
+ * MeetingRepository implementation backed by Firebase Firestore.
+ * Chat messages live in a `messages` subcollection of each meeting document;
+ * meetings that still embed them in a `messages` array are migrated when read.
+ * 
+ * @module repositories/firestoreMeetingRepository
+ */
+
+import admin from "firebase-admin";
+import { getDb, COLLECTIONS } from "../utils/firebase";
+import type {
+    Meeting,
+    ChatMessage,
+    SummaryJob,
+    MeetingParticipation,
+    MeetingSeries,
+    ModerationRecord,
+} from "../models/meeting";
+import { isMessageVisibleTo } from "../utils/messageVisibility";
+import { LEGACY_LANGUAGE } from "../utils/language";
+import type { MeetingRepository } from "./meetingRepository";
+
+/**
+ * Recursively converts Firestore Timestamps into Date objects
+ * 
+ * @param {unknown} value - Value read from Firestore
+ * @returns {unknown} Value with all Timestamps replaced by Dates
+ */
+const fromFirestore = (value: unknown): unknown => {
+    if (value instanceof admin.firestore.Timestamp) {
+        return value.toDate();
+    }
+    if (Array.isArray(value)) {
+        return value.map(fromFirestore);
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, val]) => [key, fromFirestore(val)])
+        );
+    }
+    return value;
+};
+
+/**
+ * Messages written per batch when moving a legacy chat history; Firestore
+ * batches hold at most 500 writes
+ */
+const MIGRATION_BATCH_SIZE = 400;
+
+/**
+ * Creates a Firestore-backed meeting repository
+ * 
+ * @returns {MeetingRepository} Repository instance
+ */
+export const createFirestoreMeetingRepository = (): MeetingRepository => {
+    const meetings = () => getDb().collection(COLLECTIONS.MEETINGS);
+    const messages = (meetingId: string) =>
+        meetings().doc(meetingId).collection(COLLECTIONS.MESSAGES);
+    const summaryJobs = () => getDb().collection(COLLECTIONS.SUMMARY_JOBS);
+    const userMeetings = (uid: string) =>
+        getDb().collection(COLLECTIONS.USERS).doc(uid).collection(COLLECTIONS.USER_MEETINGS);
+    const series = () => getDb().collection(COLLECTIONS.MEETING_SERIES);
+    const moderationRecords = (meetingId: string) =>
+        meetings().doc(meetingId).collection(COLLECTIONS.MODERATION);
+
+    /**
+     * Moves the chat history of a legacy meeting document into its `messages`
+     * subcollection, then drops the embedded array. Messages keep their IDs, so
+     * a migration that was cut short is simply run again on the next read.
+     */
+    const migrateLegacyMessages = async (meetingId: string, legacy: ChatMessage[]): Promise<void> => {
+        for (let i = 0; i < legacy.length; i += MIGRATION_BATCH_SIZE) {
+            const batch = getDb().batch();
+
+            for (const message of legacy.slice(i, i + MIGRATION_BATCH_SIZE)) {
+                batch.set(messages(meetingId).doc(message.id), message);
+            }
+            await batch.commit();
+        }
+
+        await meetings().doc(meetingId).update({
+            messages: admin.firestore.FieldValue.delete(),
+        });
+
+        console.log(`📦 Moved ${legacy.length} legacy messages of meeting ${meetingId}`);
+    };
+
+    return {
+        async create(meeting: Meeting): Promise<void> {
+            await meetings().doc(meeting.meetingId).set({
+                ...meeting,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        },
+
+        async findById(meetingId: string): Promise<Meeting | null> {
+            const doc = await meetings().doc(meetingId).get();
+
+            if (!doc.exists) {
+                return null;
+            }
+
+            // Legacy documents embedded the chat history in a `messages` array
+            const { messages: legacyMessages, ...data } = fromFirestore(doc.data()) as Meeting & {
+                messages?: ChatMessage[];
+            };
+
+            if (Array.isArray(legacyMessages)) {
+                await migrateLegacyMessages(meetingId, legacyMessages);
+            }
+
+            return {
+                ...data,
+                participants: data.participants || [],
+                hostId: data.hostId || data.createdBy,
+                isLocked: data.isLocked ?? false,
+                bannedUids: data.bannedUids || [],
+                mutedUids: data.mutedUids || [],
+                lobbyEnabled: data.lobbyEnabled ?? false,
+                pendingParticipants: data.pendingParticipants || [],
+                readPositions: data.readPositions || {},
+                assistantEnabled: data.assistantEnabled ?? true,
+                language: data.language || LEGACY_LANGUAGE,
+                attendees: data.attendees || [],
+            };
+        },
+
+        async update(meetingId: string, changes: Partial<Meeting>): Promise<void> {
+            await meetings().doc(meetingId).update(changes);
+        },
+
+        async addMessage(meetingId: string, message: ChatMessage): Promise<void> {
+            await messages(meetingId).doc(message.id).set(message);
+        },
+
+        async getMessages(
+            meetingId: string,
+            options: { before?: string; limit: number; viewerId?: string }
+        ): Promise<ChatMessage[]> {
+            const query = messages(meetingId).orderBy("timestamp", "desc");
+            let cursor: admin.firestore.DocumentSnapshot | undefined;
+
+            if (options.before) {
+                cursor = await messages(meetingId).doc(options.before).get();
+                if (!cursor.exists) {
+                    return [];
+                }
+            }
+
+            // Read in batches until the page is full, skipping messages hidden from the viewer
+            const result: ChatMessage[] = [];
+            while (result.length < options.limit) {
+                const snapshot = await (cursor ? query.startAfter(cursor) : query)
+                    .limit(options.limit)
+                    .get();
+
+                for (const doc of snapshot.docs) {
+                    const message = fromFirestore(doc.data()) as ChatMessage;
+                    if (!options.viewerId || isMessageVisibleTo(message, options.viewerId)) {
+                        result.push(message);
+                    }
+                    if (result.length === options.limit) {
+                        break;
+                    }
+                }
+
+                if (snapshot.size < options.limit) {
+                    break;
+                }
+                cursor = snapshot.docs[snapshot.docs.length - 1];
+            }
+
+            return result.reverse();
+        },
+
+        async getAllMessages(meetingId: string): Promise<ChatMessage[]> {
+            const snapshot = await messages(meetingId).orderBy("timestamp", "asc").get();
+            return snapshot.docs.map((doc) => fromFirestore(doc.data()) as ChatMessage);
+        },
+
+        async getMessage(meetingId: string, messageId: string): Promise<ChatMessage | null> {
+            const doc = await messages(meetingId).doc(messageId).get();
+            return doc.exists ? (fromFirestore(doc.data()) as ChatMessage) : null;
+        },
+
+        async updateMessage(
+            meetingId: string,
+            messageId: string,
+            update: (message: ChatMessage) => ChatMessage
+        ): Promise<ChatMessage | null> {
+            const ref = messages(meetingId).doc(messageId);
+
+            return getDb().runTransaction(async (transaction) => {
+                const doc = await transaction.get(ref);
+
+                if (!doc.exists) {
+                    return null;
+                }
+
+                const updated = update(fromFirestore(doc.data()) as ChatMessage);
+                transaction.set(ref, updated);
+                return updated;
+            });
+        },
+
+        async getSummaryJob(meetingId: string): Promise<SummaryJob | null> {
+            const doc = await summaryJobs().doc(meetingId).get();
+            return doc.exists ? (fromFirestore(doc.data()) as SummaryJob) : null;
+        },
+
+        async updateSummaryJob(
+            meetingId: string,
+            update: (job: SummaryJob | null) => SummaryJob | null
+        ): Promise<SummaryJob | null> {
+            const ref = summaryJobs().doc(meetingId);
+
+            return getDb().runTransaction(async (transaction) => {
+                const doc = await transaction.get(ref);
+                const updated = update(doc.exists ? (fromFirestore(doc.data()) as SummaryJob) : null);
+
+                if (updated) {
+                    transaction.set(ref, updated);
+                }
+                return updated;
+            });
+        },
+
+        async findDueSummaryJobs(now: Date, limit: number): Promise<SummaryJob[]> {
+            // Both queries need a composite index (status + runAfter, status + leaseExpiresAt)
+            const [pending, abandoned] = await Promise.all([
+                summaryJobs()
+                    .where("status", "==", "pending")
+                    .where("runAfter", "<=", now)
+                    .orderBy("runAfter")
+                    .limit(limit)
+                    .get(),
+                summaryJobs()
+                    .where("status", "==", "running")
+                    .where("leaseExpiresAt", "<=", now)
+                    .limit(limit)
+                    .get(),
+            ]);
+
+            return [...pending.docs, ...abandoned.docs]
+                .slice(0, limit)
+                .map((doc) => fromFirestore(doc.data()) as SummaryJob);
+        },
+
+        async findExpiredMeetings(now: Date, idleBefore: Date | null, limit: number): Promise<Meeting[]> {
+            // Both queries need a composite index (isActive + scheduledEnd, isActive + lastActivityAt)
+            const [expired, idle] = await Promise.all([
+                meetings()
+                    .where("isActive", "==", true)
+                    .where("scheduledEnd", "<=", now)
+                    .limit(limit)
+                    .get(),
+                idleBefore
+                    ? meetings()
+                        .where("isActive", "==", true)
+                        .where("lastActivityAt", "<=", idleBefore)
+                        .limit(limit)
+                        .get()
+                    : null,
+            ]);
+
+            const docs = [...expired.docs, ...(idle?.docs || [])];
+            const unique = new Map(docs.map((doc) => [doc.id, fromFirestore(doc.data()) as Meeting]));
+            return [...unique.values()].slice(0, limit);
+        },
+
+        async updateParticipation(
+            uid: string,
+            meetingId: string,
+            update: (participation: MeetingParticipation | null) => MeetingParticipation
+        ): Promise<void> {
+            const ref = userMeetings(uid).doc(meetingId);
+
+            await getDb().runTransaction(async (transaction) => {
+                const doc = await transaction.get(ref);
+                transaction.set(ref, update(doc.exists ? (fromFirestore(doc.data()) as MeetingParticipation) : null));
+            });
+        },
+
+        async findParticipations(
+            uid: string,
+            options: { from?: Date; to?: Date; before?: string; limit: number }
+        ): Promise<MeetingParticipation[]> {
+            let query = userMeetings(uid).orderBy("meetingCreatedAt", "desc");
+
+            if (options.from) {
+                query = query.where("meetingCreatedAt", ">=", options.from);
+            }
+            if (options.to) {
+                query = query.where("meetingCreatedAt", "<=", options.to);
+            }
+            if (options.before) {
+                const cursor = await userMeetings(uid).doc(options.before).get();
+                if (!cursor.exists) {
+                    return [];
+                }
+                query = query.startAfter(cursor);
+            }
+
+            const snapshot = await query.limit(options.limit).get();
+            return snapshot.docs.map((doc) => fromFirestore(doc.data()) as MeetingParticipation);
+        },
+
+        async createSeries(entry: MeetingSeries): Promise<void> {
+            await series().doc(entry.seriesId).set({
+                ...entry,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        },
+
+        async findSeriesById(seriesId: string): Promise<MeetingSeries | null> {
+            const doc = await series().doc(seriesId).get();
+            return doc.exists ? (fromFirestore(doc.data()) as MeetingSeries) : null;
+        },
+
+        async updateSeries(seriesId: string, changes: Partial<MeetingSeries>): Promise<void> {
+            await series().doc(seriesId).update(changes);
+        },
+
+        async findSeriesMeetings(seriesId: string): Promise<Meeting[]> {
+            // Needs a composite index (seriesId + occurrenceIndex)
+            const snapshot = await meetings()
+                .where("seriesId", "==", seriesId)
+                .orderBy("occurrenceIndex")
+                .get();
+
+            return snapshot.docs.map((doc) => fromFirestore(doc.data()) as Meeting);
+        },
+
+        async addModerationRecord(meetingId: string, record: ModerationRecord): Promise<void> {
+            await moderationRecords(meetingId).doc(record.id).set(record);
+        },
+
+        async getModerationRecords(meetingId: string): Promise<ModerationRecord[]> {
+            const snapshot = await moderationRecords(meetingId).orderBy("createdAt", "asc").get();
+            return snapshot.docs.map((doc) => fromFirestore(doc.data()) as ModerationRecord);
+        },
+
+        async updateModerationRecord(
+            meetingId: string,
+            recordId: string,
+            update: (record: ModerationRecord) => ModerationRecord
+        ): Promise<ModerationRecord | null> {
+            const ref = moderationRecords(meetingId).doc(recordId);
+
+            return getDb().runTransaction(async (transaction) => {
+                const doc = await transaction.get(ref);
+
+                if (!doc.exists) {
+                    return null;
+                }
+
+                const updated = update(fromFirestore(doc.data()) as ModerationRecord);
+                transaction.set(ref, updated);
+                return updated;
+            });
+        },
+    };
+};
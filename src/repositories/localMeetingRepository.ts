@@ -0,0 +1,329 @@
+/**
+ * Local Meeting Repository
+ * 
+ * MeetingRepository implementation that keeps meetings in memory.
+ * When a file path is given, the store is loaded from and written back
+ * to a JSON file so data survives restarts without Firebase.
+ * 
+ * @module repositories/localMeetingRepository
+ */
+
+import fs from "fs";
+import path from "path";
+import type {
+    Meeting,
+    ChatMessage,
+    SummaryJob,
+    MeetingParticipation,
+    MeetingSeries,
+    ModerationRecord,
+} from "../models/meeting";
+import { isMessageVisibleTo } from "../utils/messageVisibility";
+import { reviveDates } from "../utils/serialization";
+import type { MeetingRepository } from "./meetingRepository";
+
+/**
+ * Shape of the JSON storage file
+ */
+interface LocalStoreFile {
+    meetings: Record<string, Meeting>;
+    messages: Record<string, ChatMessage[]>;
+    summaryJobs?: Record<string, SummaryJob>;
+    /** Meeting index per user: uid -> meetingId -> entry */
+    participations?: Record<string, Record<string, MeetingParticipation>>;
+    series?: Record<string, MeetingSeries>;
+    moderationRecords?: Record<string, ModerationRecord[]>;
+}
+
+/**
+ * Copies a value so callers never share references with the store
+ */
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Creates an in-memory meeting repository, optionally persisted to a JSON file
+ * 
+ * @param {string} [filePath] - JSON file used for persistence
+ * @returns {MeetingRepository} Repository instance
+ */
+export const createLocalMeetingRepository = (filePath?: string): MeetingRepository => {
+    const meetings = new Map<string, Meeting>();
+    const messages = new Map<string, ChatMessage[]>();
+    const summaryJobs = new Map<string, SummaryJob>();
+    const participations = new Map<string, Map<string, MeetingParticipation>>();
+    const series = new Map<string, MeetingSeries>();
+    const moderationRecords = new Map<string, ModerationRecord[]>();
+    let pendingWrite: Promise<void> = Promise.resolve();
+    let queuedWrite: Promise<void> | null = null;
+
+    if (filePath && fs.existsSync(filePath)) {
+        const raw = fs.readFileSync(filePath, "utf8");
+        const data = JSON.parse(raw, reviveDates) as LocalStoreFile;
+        for (const [meetingId, meeting] of Object.entries(data.meetings || {})) {
+            meetings.set(meetingId, meeting);
+        }
+        for (const [meetingId, history] of Object.entries(data.messages || {})) {
+            messages.set(meetingId, history);
+        }
+        for (const [meetingId, job] of Object.entries(data.summaryJobs || {})) {
+            summaryJobs.set(meetingId, job);
+        }
+        for (const [uid, entries] of Object.entries(data.participations || {})) {
+            participations.set(uid, new Map(Object.entries(entries)));
+        }
+        for (const [seriesId, entry] of Object.entries(data.series || {})) {
+            series.set(seriesId, entry);
+        }
+        for (const [meetingId, records] of Object.entries(data.moderationRecords || {})) {
+            moderationRecords.set(meetingId, records);
+        }
+        console.log(`📂 Loaded ${meetings.size} meetings from ${filePath}`);
+    }
+
+    /**
+     * Writes the store to disk, serializing writes so they never interleave
+     * Changes made while a write is running share a single next write, which
+     * takes its snapshot when it starts, so a busy chat does not rewrite the
+     * file once per message.
+     */
+    const persist = (): Promise<void> => {
+        if (!filePath) {
+            return Promise.resolve();
+        }
+
+        if (!queuedWrite) {
+            queuedWrite = pendingWrite
+                .then(async () => {
+                    queuedWrite = null;
+
+                    const file: LocalStoreFile = {
+                        meetings: Object.fromEntries(meetings),
+                        messages: Object.fromEntries(messages),
+                        summaryJobs: Object.fromEntries(summaryJobs),
+                        participations: Object.fromEntries(
+                            [...participations].map(([uid, entries]) => [uid, Object.fromEntries(entries)])
+                        ),
+                        series: Object.fromEntries(series),
+                        moderationRecords: Object.fromEntries(moderationRecords),
+                    };
+                    const snapshot = JSON.stringify(file, null, 2);
+
+                    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+                    await fs.promises.writeFile(filePath, snapshot, "utf8");
+                })
+                .catch((err) => console.error("Error writing storage file:", err));
+            pendingWrite = queuedWrite;
+        }
+
+        return queuedWrite;
+    };
+
+    return {
+        async create(meeting: Meeting): Promise<void> {
+            meetings.set(meeting.meetingId, clone(meeting));
+            await persist();
+        },
+
+        async findById(meetingId: string): Promise<Meeting | null> {
+            const meeting = meetings.get(meetingId);
+            return meeting ? clone(meeting) : null;
+        },
+
+        async update(meetingId: string, changes: Partial<Meeting>): Promise<void> {
+            const meeting = meetings.get(meetingId);
+
+            if (!meeting) {
+                throw new Error(`Meeting ${meetingId} not found`);
+            }
+
+            meetings.set(meetingId, { ...meeting, ...clone(changes) });
+            await persist();
+        },
+
+        async addMessage(meetingId: string, message: ChatMessage): Promise<void> {
+            const history = messages.get(meetingId) || [];
+            history.push(clone(message));
+            messages.set(meetingId, history);
+            await persist();
+        },
+
+        async getMessages(
+            meetingId: string,
+            options: { before?: string; limit: number; viewerId?: string }
+        ): Promise<ChatMessage[]> {
+            const history = messages.get(meetingId) || [];
+            let end = history.length;
+
+            if (options.before) {
+                end = history.findIndex((msg) => msg.id === options.before);
+                if (end === -1) {
+                    return [];
+                }
+            }
+
+            const visible = history
+                .slice(0, end)
+                .filter((msg) => !options.viewerId || isMessageVisibleTo(msg, options.viewerId));
+
+            return clone(visible.slice(Math.max(0, visible.length - options.limit)));
+        },
+
+        async getAllMessages(meetingId: string): Promise<ChatMessage[]> {
+            return clone(messages.get(meetingId) || []);
+        },
+
+        async getMessage(meetingId: string, messageId: string): Promise<ChatMessage | null> {
+            const message = (messages.get(meetingId) || []).find((msg) => msg.id === messageId);
+            return message ? clone(message) : null;
+        },
+
+        async updateMessage(
+            meetingId: string,
+            messageId: string,
+            update: (message: ChatMessage) => ChatMessage
+        ): Promise<ChatMessage | null> {
+            const history = messages.get(meetingId) || [];
+            const index = history.findIndex((msg) => msg.id === messageId);
+
+            if (index === -1) {
+                return null;
+            }
+
+            // Runs synchronously, so no other update can interleave
+            history[index] = clone(update(clone(history[index])));
+            await persist();
+            return clone(history[index]);
+        },
+
+        async getSummaryJob(meetingId: string): Promise<SummaryJob | null> {
+            const job = summaryJobs.get(meetingId);
+            return job ? clone(job) : null;
+        },
+
+        async updateSummaryJob(
+            meetingId: string,
+            update: (job: SummaryJob | null) => SummaryJob | null
+        ): Promise<SummaryJob | null> {
+            const current = summaryJobs.get(meetingId);
+            const updated = update(current ? clone(current) : null);
+
+            if (!updated) {
+                return null;
+            }
+
+            summaryJobs.set(meetingId, clone(updated));
+            await persist();
+            return clone(updated);
+        },
+
+        async findDueSummaryJobs(now: Date, limit: number): Promise<SummaryJob[]> {
+            const due = [...summaryJobs.values()].filter((job) =>
+                (job.status === "pending" && job.runAfter <= now) ||
+                (job.status === "running" && !!job.leaseExpiresAt && job.leaseExpiresAt <= now)
+            );
+            return clone(due.slice(0, limit));
+        },
+
+        async findExpiredMeetings(now: Date, idleBefore: Date | null, limit: number): Promise<Meeting[]> {
+            const expired = [...meetings.values()].filter((meeting) =>
+                meeting.isActive && (
+                    (!!meeting.scheduledEnd && meeting.scheduledEnd <= now) ||
+                    (!!idleBefore && !!meeting.lastActivityAt && meeting.lastActivityAt <= idleBefore)
+                )
+            );
+            return clone(expired.slice(0, limit));
+        },
+
+        async updateParticipation(
+            uid: string,
+            meetingId: string,
+            update: (participation: MeetingParticipation | null) => MeetingParticipation
+        ): Promise<void> {
+            const entries = participations.get(uid) || new Map<string, MeetingParticipation>();
+            const current = entries.get(meetingId);
+
+            entries.set(meetingId, clone(update(current ? clone(current) : null)));
+            participations.set(uid, entries);
+            await persist();
+        },
+
+        async findParticipations(
+            uid: string,
+            options: { from?: Date; to?: Date; before?: string; limit: number }
+        ): Promise<MeetingParticipation[]> {
+            let entries = [...(participations.get(uid)?.values() || [])]
+                .filter((entry) =>
+                    (!options.from || entry.meetingCreatedAt >= options.from) &&
+                    (!options.to || entry.meetingCreatedAt <= options.to)
+                )
+                .sort((a, b) => b.meetingCreatedAt.getTime() - a.meetingCreatedAt.getTime());
+
+            if (options.before) {
+                const index = entries.findIndex((entry) => entry.meetingId === options.before);
+                if (index === -1) {
+                    return [];
+                }
+                entries = entries.slice(index + 1);
+            }
+
+            return clone(entries.slice(0, options.limit));
+        },
+
+        async createSeries(entry: MeetingSeries): Promise<void> {
+            series.set(entry.seriesId, clone(entry));
+            await persist();
+        },
+
+        async findSeriesById(seriesId: string): Promise<MeetingSeries | null> {
+            const entry = series.get(seriesId);
+            return entry ? clone(entry) : null;
+        },
+
+        async updateSeries(seriesId: string, changes: Partial<MeetingSeries>): Promise<void> {
+            const entry = series.get(seriesId);
+
+            if (!entry) {
+                throw new Error(`Meeting series ${seriesId} not found`);
+            }
+
+            series.set(seriesId, { ...entry, ...clone(changes) });
+            await persist();
+        },
+
+        async findSeriesMeetings(seriesId: string): Promise<Meeting[]> {
+            const occurrences = [...meetings.values()]
+                .filter((meeting) => meeting.seriesId === seriesId)
+                .sort((a, b) => (a.occurrenceIndex ?? 0) - (b.occurrenceIndex ?? 0));
+            return clone(occurrences);
+        },
+
+        async addModerationRecord(meetingId: string, record: ModerationRecord): Promise<void> {
+            const records = moderationRecords.get(meetingId) || [];
+            records.push(clone(record));
+            moderationRecords.set(meetingId, records);
+            await persist();
+        },
+
+        async getModerationRecords(meetingId: string): Promise<ModerationRecord[]> {
+            return clone(moderationRecords.get(meetingId) || []);
+        },
+
+        async updateModerationRecord(
+            meetingId: string,
+            recordId: string,
+            update: (record: ModerationRecord) => ModerationRecord
+        ): Promise<ModerationRecord | null> {
+            const records = moderationRecords.get(meetingId) || [];
+            const index = records.findIndex((record) => record.id === recordId);
+
+            if (index === -1) {
+                return null;
+            }
+
+            // Runs synchronously, so no other update can interleave
+            records[index] = clone(update(clone(records[index])));
+            await persist();
+            return clone(records[index]);
+        },
+    };
+};
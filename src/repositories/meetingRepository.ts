@@ -0,0 +1,170 @@
+/**
+ * Meeting Repository
+ * 
+ * Storage abstraction used by the meeting service. The concrete backend
+ * (Firestore or local) is selected through the STORAGE_DRIVER environment
+ * variable so the server can run fully offline.
+ * 
+ * @module repositories/meetingRepository
+ */
+
+import dotenv from "dotenv";
+import type {
+    Meeting,
+    ChatMessage,
+    SummaryJob,
+    MeetingParticipation,
+    MeetingSeries,
+    ModerationRecord,
+} from "../models/meeting";
+import { createFirestoreMeetingRepository } from "./firestoreMeetingRepository";
+import { createLocalMeetingRepository } from "./localMeetingRepository";
+
+dotenv.config();
+
+/**
+ * Persistence operations for meetings
+ * @interface MeetingRepository
+ */
+export interface MeetingRepository {
+    /** Stores a newly created meeting */
+    create(meeting: Meeting): Promise<void>;
+    /** Loads a meeting by ID, or null if it does not exist */
+    findById(meetingId: string): Promise<Meeting | null>;
+    /** Applies a partial update to an existing meeting */
+    update(meetingId: string, changes: Partial<Meeting>): Promise<void>;
+    /** Stores a single chat message of a meeting */
+    addMessage(meetingId: string, message: ChatMessage): Promise<void>;
+    /**
+     * Returns up to `limit` most recent messages older than the message with ID `before`
+     * (or the most recent ones when `before` is omitted), ordered oldest to newest.
+     * With `viewerId`, private messages that user is not part of are skipped.
+     */
+    getMessages(
+        meetingId: string,
+        options: { before?: string; limit: number; viewerId?: string }
+    ): Promise<ChatMessage[]>;
+    /** Returns the full chat history of a meeting, ordered oldest to newest */
+    getAllMessages(meetingId: string): Promise<ChatMessage[]>;
+    /** Loads a single message, or null if it does not exist */
+    getMessage(meetingId: string, messageId: string): Promise<ChatMessage | null>;
+    /**
+     * Atomically replaces a message with the result of `update` applied to its
+     * current value. Returns the updated message, or null if it does not exist.
+     */
+    updateMessage(
+        meetingId: string,
+        messageId: string,
+        update: (message: ChatMessage) => ChatMessage
+    ): Promise<ChatMessage | null>;
+    /** Loads the summary job of a meeting, or null if none was queued */
+    getSummaryJob(meetingId: string): Promise<SummaryJob | null>;
+    /**
+     * Atomically replaces the summary job of a meeting with the result of `update`
+     * applied to its current value (null if there is none). When `update` returns
+     * null nothing is written. Returns the stored job, or null if nothing was written.
+     */
+    updateSummaryJob(
+        meetingId: string,
+        update: (job: SummaryJob | null) => SummaryJob | null
+    ): Promise<SummaryJob | null>;
+    /**
+     * Returns up to `limit` jobs ready to run at `now`: pending jobs whose
+     * `runAfter` has passed and running jobs whose lease has expired
+     */
+    findDueSummaryJobs(now: Date, limit: number): Promise<SummaryJob[]>;
+    /**
+     * Returns up to `limit` active meetings whose `scheduledEnd` has passed at `now`
+     * or, when `idleBefore` is given, whose `lastActivityAt` is not after it
+     */
+    findExpiredMeetings(now: Date, idleBefore: Date | null, limit: number): Promise<Meeting[]>;
+    /**
+     * Atomically replaces the entry of a meeting in a user's meeting index with
+     * the result of `update` applied to its current value (null if there is none)
+     */
+    updateParticipation(
+        uid: string,
+        meetingId: string,
+        update: (participation: MeetingParticipation | null) => MeetingParticipation
+    ): Promise<void>;
+    /**
+     * Returns up to `limit` entries of a user's meeting index, newest meeting first,
+     * optionally limited to meetings created in [`from`, `to`] and to those older
+     * than the entry of meeting `before`
+     */
+    findParticipations(
+        uid: string,
+        options: { from?: Date; to?: Date; before?: string; limit: number }
+    ): Promise<MeetingParticipation[]>;
+    /** Stores a newly created meeting series */
+    createSeries(series: MeetingSeries): Promise<void>;
+    /** Loads a meeting series by ID, or null if it does not exist */
+    findSeriesById(seriesId: string): Promise<MeetingSeries | null>;
+    /** Applies a partial update to an existing meeting series */
+    updateSeries(seriesId: string, changes: Partial<MeetingSeries>): Promise<void>;
+    /** Returns the occurrences of a series created so far, ordered by occurrence index */
+    findSeriesMeetings(seriesId: string): Promise<Meeting[]>;
+    /** Stores the audit entry of a flagged message */
+    addModerationRecord(meetingId: string, record: ModerationRecord): Promise<void>;
+    /** Returns the audit entries of a meeting, oldest first */
+    getModerationRecords(meetingId: string): Promise<ModerationRecord[]>;
+    /**
+     * Atomically replaces an audit entry with the result of `update` applied to
+     * its current value. Returns the updated entry, or null if it does not exist.
+     */
+    updateModerationRecord(
+        meetingId: string,
+        recordId: string,
+        update: (record: ModerationRecord) => ModerationRecord
+    ): Promise<ModerationRecord | null>;
+}
+
+/**
+ * Supported storage drivers
+ * - firestore: Firebase Firestore (default)
+ * - memory: in-process storage, persisted to STORAGE_FILE when set
+ */
+export type StorageDriver = "firestore" | "memory";
+
+let repository: MeetingRepository | null = null;
+
+/**
+ * Creates a repository for the given driver
+ * 
+ * @param {StorageDriver} driver - Storage driver name
+ * @returns {MeetingRepository} Repository instance
+ * @throws {Error} If the driver is unknown
+ */
+export const createMeetingRepository = (driver: StorageDriver): MeetingRepository => {
+    switch (driver) {
+        case "firestore":
+            return createFirestoreMeetingRepository();
+        case "memory":
+            return createLocalMeetingRepository(process.env.STORAGE_FILE);
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+};
+
+/**
+ * Returns the configured meeting repository, creating it on first use
+ * 
+ * @returns {MeetingRepository} Active repository
+ */
+export const getMeetingRepository = (): MeetingRepository => {
+    if (!repository) {
+        const driver = (process.env.STORAGE_DRIVER || "firestore") as StorageDriver;
+        repository = createMeetingRepository(driver);
+        console.log(`🗄️ Using ${driver} storage driver`);
+    }
+    return repository;
+};
+
+/**
+ * Replaces the active repository (useful for tests)
+ * 
+ * @param {MeetingRepository} repo - Repository to use
+ */
+export const setMeetingRepository = (repo: MeetingRepository): void => {
+    repository = repo;
+};
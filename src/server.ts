@@ -3,15 +3,16 @@
  * 
  * Real-time chat server using Socket.IO for video conference meetings.
  * Supports 2-10 users per meeting with real-time messaging.
- * Integrates with Firestore for meeting persistence.
+ * Persists meetings through the configured storage driver (Firestore or local).
  * 
  * @module server
  */
 
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 import { createServer } from "http";
 import { Server, Socket } from "socket.io";
 import cors from "cors";
+import { randomUUID } from "crypto";
 import dotenv from "dotenv";
 import {
     createMeeting,
@@ -20,13 +21,83 @@ import {
     endMeeting,
     addMessage,
     getParticipants,
+    getMessageHistory,
+    getMeetingById,
+    getMessage,
+    leaveLobby,
+    issueInviteToken,
+    markParticipantDisconnected,
+    regenerateSummary,
+    isMeetingMember,
+    getJoinOpensAt,
 } from "./services/meetingService";
+import { onMeetingExpired, startMeetingScheduler } from "./services/meetingScheduler";
+import { exportMeeting, isExportFormat, isValidTimeZone } from "./services/exportService";
+import { getUserMeetings, searchMeetings } from "./services/historyService";
+import {
+    createSeries,
+    getCurrentOccurrence,
+    getSeriesById,
+    getSeriesOccurrences,
+    resolveSeriesMeeting,
+} from "./services/seriesService";
+import {
+    getSummaryJob,
+    onSummaryProgress,
+    onSummaryReady,
+    startSummaryWorker,
+} from "./services/summaryQueue";
 import {
     isValidMeetingId,
-    isValidUserData,
-    isValidMessage,
+    isValidSeriesId,
+    isValidMeetingTitle,
+    isValidDuration,
 } from "./utils/validation";
-import type { ChatMessage } from "./models/meeting";
+import {
+    admitParticipant,
+    denyParticipant,
+    kickParticipant,
+    setParticipantMuted,
+    setMeetingLocked,
+    setAssistantEnabled,
+    transferHost,
+    isParticipantMuted,
+    ModerationResult,
+} from "./services/moderationService";
+import {
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    markRead,
+} from "./services/messageService";
+import {
+    parseAssistantCommand,
+    reserveAssistantRequest,
+    runAssistantCommand,
+} from "./services/assistantService";
+import { setAutoTranslate, translateMessage } from "./services/translationService";
+import {
+    getModerationRecords,
+    moderateText,
+    ModerationOutcome,
+    recordModeration,
+    reviewHeldMessage,
+} from "./services/contentModerationService";
+import { isLanguageCode } from "./utils/language";
+import { isRecurrenceFrequency } from "./utils/recurrence";
+import { requireAuth, authenticateSocket } from "./middleware/auth";
+import { checkProtocolVersion, createEventValidator } from "./middleware/protocol";
+import { isValidPasscode } from "./utils/passcode";
+import { extractMentions } from "./utils/mentions";
+import { isMessageVisibleTo, isPublicMessage } from "./utils/messageVisibility";
+import { createAttemptLimiter } from "./utils/attemptLimiter";
+import { createRateLimiter, parseRateLimit, RateLimiter } from "./utils/rateLimiter";
+import { createRepeatDetector } from "./utils/repeatDetector";
+import { createTypingTracker } from "./utils/typingTracker";
+import { getMeetingStateStore } from "./state/meetingStateStore";
+import { configureSocketAdapter } from "./utils/socketAdapter";
+import type { ChatMessage, Meeting, ModerationRecord, Participant } from "./models/meeting";
+import type { ClientToServerEvents, ServerEventName, ServerEventPayload, ServerToClientEvents } from "./protocol/events";
 
 dotenv.config();
 
@@ -61,238 +132,2193 @@ const corsOptions = {
 app.use(cors(corsOptions));
 app.use(express.json());
 
-// Socket.IO server with CORS
-const io = new Server(httpServer, {
+/**
+ * Events relayed between server instances
+ * @interface InterServerEvents
+ */
+interface InterServerEvents {
+    "lobby-decision": (decision: LobbyDecision) => void;
+}
+
+/**
+ * Client socket speaking the chat protocol
+ */
+type ChatSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents>;
+
+// Socket.IO server with CORS, typed by the shared event contract
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents>(httpServer, {
     cors: corsOptions,
 });
 
+// Forward summary progress to clients still in the meeting room
+onSummaryProgress((meetingId, progress) => {
+    io.to(meetingId).emit("summary-progress", { meetingId, ...progress });
+});
+
+// Tell clients still in the meeting room that the summary finished
+onSummaryReady((meetingId, outcome) => {
+    io.to(meetingId).emit("summary-ready", { meetingId, ...outcome });
+});
+
+// Meetings ended by the scheduler are announced like a host ending them
+onMeetingExpired((meetingId, reason) => {
+    io.to(meetingId).emit("meeting-ended", { reason });
+});
+
 /**
- * HTTP endpoint to create a new meeting
- * POST /api/meetings/create
+ * Failed passcode attempts, tracked per socket, per user and per client IP
+ * Counters outlive the socket, so reconnecting does not reset them.
  */
-app.post("/api/meetings/create", async (req: Request, res: Response) => {
+const passcodeAttempts = createAttemptLimiter(
+    Number(process.env.PASSCODE_MAX_ATTEMPTS) || 5,
+    Number(process.env.PASSCODE_WINDOW_MS) || 15 * 60 * 1000
+);
+
+/**
+ * Token buckets for socket events and REST requests: per socket, per user
+ * (sockets and REST combined) and per meeting. Limits are "<tokens>/<seconds>".
+ */
+const socketLimiter = createRateLimiter(parseRateLimit(process.env.RATE_LIMIT_SOCKET, "20/10"));
+const userLimiter = createRateLimiter(parseRateLimit(process.env.RATE_LIMIT_USER, "30/10"));
+const meetingLimiter = createRateLimiter(parseRateLimit(process.env.RATE_LIMIT_MEETING, "100/10"));
+
+/**
+ * Join attempts, per socket and per user, on top of the limits above
+ */
+const joinLimiter = createRateLimiter(parseRateLimit(process.env.RATE_LIMIT_JOIN, "5/60"));
+
+/**
+ * Identical messages accepted from one sender in a meeting within the window
+ */
+const repeatDetector = createRepeatDetector(
+    Number(process.env.DUPLICATE_MESSAGE_MAX ?? 1),
+    Number(process.env.DUPLICATE_MESSAGE_WINDOW_MS) || 30000
+);
+
+/**
+ * Socket events left out of the rate limits; typing updates are throttled by the typing tracker
+ */
+const UNLIMITED_EVENTS = new Set(["typing-start", "typing-stop"]);
+
+/**
+ * Takes a token from every bucket, or from none of them if one is empty
+ * 
+ * @param {[RateLimiter, string][]} buckets - Limiters and the key to charge in each
+ * @returns {number} 0 if the tokens were taken, or the milliseconds to wait
+ */
+const consumeTokens = (buckets: [RateLimiter, string][]): number => {
+    const retryAfterMs = Math.max(...buckets.map(([limiter, key]) => limiter.retryAfter(key)));
+
+    if (retryAfterMs === 0) {
+        buckets.forEach(([limiter, key]) => limiter.consume(key));
+    }
+
+    return retryAfterMs;
+};
+
+/**
+ * Tells a client its event was dropped for going over a limit
+ * 
+ * @param {ChatSocket} socket - Client socket
+ * @param {string} event - Event that was dropped
+ * @param {"rate" | "duplicate"} reason - Too many events, or a repeated message
+ * @param {number} retryAfterMs - Time until the event would be accepted
+ */
+const emitRateLimited = (
+    socket: ChatSocket,
+    event: string,
+    reason: "rate" | "duplicate",
+    retryAfterMs: number
+): void => {
+    socket.emit("rate-limited", {
+        event,
+        reason,
+        message: reason === "duplicate"
+            ? "You already sent this message, try something new"
+            : "Too many requests, slow down",
+        retryAfterMs,
+    });
+};
+
+/**
+ * Who is typing in each meeting; entries expire if a client never sends typing-stop
+ */
+const typingTracker = createTypingTracker(
+    getMeetingStateStore(),
+    Number(process.env.TYPING_TIMEOUT_MS) || 5000,
+    Number(process.env.TYPING_THROTTLE_MS) || 1000,
+    (meetingId) => broadcastTyping(meetingId)
+);
+
+/**
+ * Sends the current list of typing users to a meeting room
+ * 
+ * @param {string} meetingId - Meeting ID
+ */
+const broadcastTyping = async (meetingId: string): Promise<void> => {
     try {
-        const { createdBy, creatorName } = req.body;
+        io.to(meetingId).emit("typing", { users: await typingTracker.list(meetingId) });
+    } catch (error) {
+        console.error("Error broadcasting typing state:", error);
+    }
+};
 
-        if (!createdBy || !creatorName) {
-            return res.status(400).json({ error: "Missing required fields" });
-        }
+/**
+ * How long a disconnected participant keeps their slot before leaving for good
+ */
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS ?? 30000);
 
-        const meeting = await createMeeting({ createdBy, creatorName });
+/**
+ * Pending removals of disconnected participants
+ * Key: `${meetingId}:${uid}`, Value: grace period timer
+ */
+const graceTimers = new Map<string, NodeJS.Timeout>();
 
-        res.status(201).json({
-            success: true,
-            meetingId: meeting.meetingId,
-            meeting,
+/**
+ * Number of reverse proxies in front of the server; X-Forwarded-For is
+ * ignored unless set, since clients can write anything in it
+ */
+const TRUST_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUST_PROXY_HOPS) || 0));
+
+/**
+ * Resolves the client IP of a socket
+ * Behind TRUST_PROXY_HOPS proxies, the address added to X-Forwarded-For by
+ * the outermost trusted proxy is used; entries before it are client-supplied.
+ * 
+ * @param {ChatSocket} socket - Client socket
+ * @returns {string} Client IP address
+ */
+const getClientIp = (socket: ChatSocket): string => {
+    if (TRUST_PROXY_HOPS === 0) {
+        return socket.handshake.address;
+    }
+
+    const forwarded = socket.handshake.headers["x-forwarded-for"];
+    const chain = [
+        ...(Array.isArray(forwarded) ? forwarded.join(",") : forwarded || "")
+            .split(",")
+            .map((hop) => hop.trim())
+            .filter(Boolean),
+        socket.handshake.address,
+    ];
+
+    return chain[Math.max(0, chain.length - 1 - TRUST_PROXY_HOPS)];
+};
+
+// Every socket must speak a supported protocol version and present a valid ID token in the handshake
+io.use(checkProtocolVersion);
+io.use(authenticateSocket);
+
+// Every REST route under /api requires a valid ID token
+app.use("/api", requireAuth);
+
+// REST requests share the user's token bucket with their sockets
+app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    const meetingId = /^\/meetings\/(\d{6})(?:\/|$)/.exec(req.path)?.[1] ??
+        (isValidMeetingId(req.body?.meetingId) ? req.body.meetingId : undefined);
+    const buckets: [RateLimiter, string][] = [[userLimiter, req.user!.uid]];
+
+    if (meetingId) {
+        buckets.push([meetingLimiter, meetingId]);
+    }
+
+    const retryAfterMs = consumeTokens(buckets);
+
+    if (retryAfterMs > 0) {
+        res.setHeader("Retry-After", Math.ceil(retryAfterMs / 1000));
+        return res.status(429).json({
+            error: "Too many requests, slow down",
+            code: "rate-limited",
+            retryAfterMs,
         });
-    } catch (error) {
-        console.error("Error creating meeting:", error);
-        res.status(500).json({ error: "Failed to create meeting" });
     }
+
+    next();
 });
 
 /**
- * HTTP endpoint to end a meeting
- * POST /api/meetings/end
+ * Puts a socket into a meeting room it has been admitted to, sends it the
+ * meeting state and recent history, and notifies the other participants
+ * 
+ * @param {ChatSocket} socket - Socket of the joining participant
+ * @param {Meeting} meeting - Meeting joined
+ * @param {boolean} [reconnected] - Whether the participant is back within the grace period
+ * @returns {Promise<void>}
  */
-app.post("/api/meetings/end", async (req: Request, res: Response) => {
-    try {
-        const { meetingId, uid } = req.body;
+const enterMeetingRoom = async (
+    socket: ChatSocket,
+    meeting: Meeting,
+    reconnected: boolean = false
+): Promise<void> => {
+    const { meetingId } = meeting;
+    const { uid, name } = socket.data;
 
-        if (!meetingId || !uid) {
-            return res.status(400).json({ error: "Missing required fields" });
-        }
+    // Cancel the pending removal of a participant coming back
+    const graceKey = `${meetingId}:${uid}`;
+    clearTimeout(graceTimers.get(graceKey));
+    graceTimers.delete(graceKey);
 
-        const result = await endMeeting(meetingId, uid);
+    // Join Socket.IO room
+    socket.join(meetingId);
 
-        if (!result.success) {
-            return res.status(400).json({ error: result.error });
-        }
+    // Store meeting ID in socket data for cleanup
+    socket.data.meetingId = meetingId;
+    socket.data.pendingMeetingId = undefined;
 
-        // Notify all participants that meeting ended
-        io.to(meetingId).emit("meeting-ended");
+    // Notify user they joined successfully, with the most recent messages
+    const history = await getMessageHistory(meetingId, uid);
+    socket.emit("joined-meeting", {
+        meetingId,
+        participants: meeting.participants,
+        messages: history.messages,
+        nextCursor: history.nextCursor,
+        createdBy: meeting.createdBy,
+        hostId: meeting.hostId,
+        isLocked: meeting.isLocked,
+        mutedUids: meeting.mutedUids,
+        assistantEnabled: meeting.assistantEnabled,
+        language: meeting.language,
+        title: meeting.title || null,
+        scheduledStart: meeting.scheduledStart || null,
+        scheduledEnd: meeting.scheduledEnd || null,
+        seriesId: meeting.seriesId || null,
+        // Only the host sees who is waiting in the lobby
+        pendingParticipants: meeting.hostId === uid ? meeting.pendingParticipants : [],
+        readPositions: meeting.readPositions,
+        typing: await typingTracker.list(meetingId),
+    });
 
-        res.json({ success: true });
-    } catch (error) {
-        console.error("Error ending meeting:", error);
-        res.status(500).json({ error: "Failed to end meeting" });
+    // Notify other participants
+    if (reconnected) {
+        socket.to(meetingId).emit("participant-reconnected", { uid, name });
+        return;
     }
-});
+
+    socket.to(meetingId).emit("user-joined", {
+        uid,
+        name,
+        participantCount: meeting.participants.length,
+    });
+};
 
 /**
- * HTTP endpoint to get meeting info
- * GET /api/meetings/:meetingId
+ * Removes a participant for good and notifies the room
+ * Runs the empty-meeting and summary logic through leaveMeeting.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} socketId - Socket ID the participant was using
+ * @param {string} uid - Participant's user ID
+ * @param {string} name - Participant's display name
+ * @returns {Promise<void>}
  */
-app.get("/api/meetings/:meetingId", async (req: Request, res: Response) => {
-    try {
-        const { meetingId } = req.params;
+const removeParticipant = async (
+    meetingId: string,
+    socketId: string,
+    uid: string,
+    name: string
+): Promise<void> => {
+    // Skip if the participant was already removed (e.g. kicked) or rejoined with a new socket
+    if (!(await leaveMeeting(meetingId, socketId))) {
+        return;
+    }
 
-        if (!isValidMeetingId(meetingId)) {
-            return res.status(400).json({ error: "Invalid meeting ID" });
-        }
+    // Get updated participant count
+    const participants = await getParticipants(meetingId);
 
-        const participants = await getParticipants(meetingId);
+    // Notify other participants
+    io.to(meetingId).emit("user-left", {
+        uid,
+        name,
+        participantCount: participants.length,
+    });
 
-        res.json({
-            success: true,
-            participantCount: participants.length,
-            participants,
-        });
-    } catch (error) {
-        console.error("Error getting meeting:", error);
-        res.status(500).json({ error: "Failed to get meeting" });
+    console.log(`👋 ${name} left meeting ${meetingId}`);
+};
+
+/**
+ * Sends an event to the host's socket, if the host is in the meeting
+ * 
+ * @param {Meeting} meeting - Meeting whose host to notify
+ * @param {E} event - Event name
+ * @param {ServerEventPayload<E>} payload - Event payload
+ */
+const notifyHost = <E extends ServerEventName>(
+    meeting: Meeting,
+    event: E,
+    payload: ServerEventPayload<E>
+): void => {
+    const host = meeting.participants.find((p) => p.uid === meeting.hostId);
+
+    if (host) {
+        io.to(host.socketId).emit(event, ...([payload] as Parameters<ServerToClientEvents[E]>));
     }
-});
+};
 
 /**
- * Health check endpoint
+ * Sends a changed message to everyone allowed to see it: the whole room for
+ * public messages, sender and recipient for private ones, and only the
+ * sender for messages held for review
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {ChatMessage} message - Updated message
+ * @returns {Promise<void>}
  */
-app.get("/", (_req: Request, res: Response) => {
-    res.send("JoinUs Chat Server is running 🚀");
-});
+const emitMessageUpdate = async (meetingId: string, message: ChatMessage): Promise<void> => {
+    if (isPublicMessage(message)) {
+        io.to(meetingId).emit("message-updated", message);
+        return;
+    }
+
+    const participants = await getParticipants(meetingId);
+    participants
+        .filter((p) => isMessageVisibleTo(message, p.uid))
+        .forEach((p) => io.to(p.socketId).emit("message-updated", message));
+};
 
 /**
- * Socket.IO connection handler
+ * Translates a new or edited message for the participants who turned on
+ * auto-translate, with one completion per language
+ * Failures are only logged; participants can still ask with translate-message.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {ChatMessage} message - Message to translate
+ * @returns {Promise<void>}
  */
-io.on("connection", (socket: Socket) => {
-    console.log(`🔌 Client connected: ${socket.id}`);
+const autoTranslateMessage = async (meetingId: string, message: ChatMessage): Promise<void> => {
+    try {
+        const readers = (await getParticipants(meetingId)).filter((p) =>
+            p.autoTranslate &&
+            p.uid !== message.userId &&
+            isMessageVisibleTo(message, p.uid)
+        );
 
-    /**
-     * Event: join-meeting
-     * User joins a meeting room
-     */
-    socket.on("join-meeting", async (data: {
-        meetingId: string;
-        uid: string;
-        name: string;
-    }) => {
-        try {
-            const { meetingId, uid, name } = data;
+        for (const language of new Set(readers.map((p) => p.autoTranslate!))) {
+            const targets = readers.filter((p) => p.autoTranslate === language);
+            const result = await translateMessage(meetingId, message.id, targets[0].uid, language);
 
-            // Validate input
-            if (!isValidMeetingId(meetingId) || !isValidUserData(uid, name)) {
-                socket.emit("error", { message: "Invalid meeting data" });
-                return;
+            if (result.success) {
+                targets.forEach((p) => io.to(p.socketId).emit("message-translated", result.translation!));
             }
+        }
+    } catch (error) {
+        console.error("Error auto-translating message:", error);
+    }
+};
 
-            // Join meeting
-            const result = await joinMeeting({
-                meetingId,
-                uid,
-                name,
-                socketId: socket.id,
-            });
+/**
+ * Records a message flagged by moderation, tells the host, and tells the
+ * sender when the message was masked, held or rejected
+ * 
+ * @param {ChatSocket} socket - Sender's socket
+ * @param {string} meetingId - Meeting ID
+ * @param {string} text - Text as sent, before masking
+ * @param {ModerationOutcome} moderation - Result of the checks
+ * @param {ChatMessage} [message] - Stored message; omitted when it was rejected
+ * @returns {Promise<void>}
+ */
+const reportModeration = async (
+    socket: ChatSocket,
+    meetingId: string,
+    text: string,
+    moderation: ModerationOutcome,
+    message?: ChatMessage
+): Promise<void> => {
+    if (moderation.flags.length === 0) {
+        return;
+    }
 
-            if (!result.success) {
-                socket.emit("join-error", { message: result.error });
-                return;
-            }
+    const { uid, name } = socket.data;
+    const record = await recordModeration(meetingId, { uid, name }, text, moderation, message);
+    const checks = moderation.flags.map((flag) => flag.check);
+
+    if (moderation.action === "reject") {
+        socket.emit("message-moderated", { action: "reject", checks });
+    } else if (moderation.action === "hold") {
+        socket.emit("message-moderated", { action: "hold", checks, message });
+    } else if (moderation.action === "mask") {
+        socket.emit("message-moderated", { action: "mask", checks, messageId: message!.id });
+    }
 
-            // Join Socket.IO room
-            socket.join(meetingId);
+    const meeting = await getMeetingById(meetingId);
 
-            // Store meeting ID in socket data for cleanup
-            socket.data.meetingId = meetingId;
-            socket.data.uid = uid;
-            socket.data.name = name;
+    if (meeting) {
+        notifyHost(meeting, "moderation-flagged", { record });
+    }
+};
 
-            // Notify user they joined successfully
-            socket.emit("joined-meeting", {
+/**
+ * Notifies the participants mentioned in a public message on their own socket
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {ChatMessage} message - New or edited message
+ * @param {Participant[]} participants - Current participants
+ * @param {string[]} [alreadyMentioned] - Users told about an earlier version of the message
+ */
+const notifyMentions = (
+    meetingId: string,
+    message: ChatMessage,
+    participants: Participant[],
+    alreadyMentioned: string[] = []
+): void => {
+    participants
+        .filter((p) =>
+            message.mentions?.includes(p.uid) &&
+            !alreadyMentioned.includes(p.uid) &&
+            p.uid !== message.userId
+        )
+        .forEach((p) => {
+            io.to(p.socketId).emit("mentioned", {
                 meetingId,
-                participants: result.meeting!.participants,
-                messages: result.meeting!.messages,
-                createdBy: result.meeting!.createdBy,
+                messageId: message.id,
+                from: { uid: message.userId, name: message.userName },
+                text: message.text,
             });
+        });
+};
 
-            // Notify other participants
-            socket.to(meetingId).emit("user-joined", {
-                uid,
-                name,
-                participantCount: result.meeting!.participants.length,
-            });
+/**
+ * Delivers the outcome of a host review: the sender sees the updated
+ * message, and the others who may see it get an approved message as new,
+ * with its mentions. A message held after an edit was already shown, so it
+ * reaches them as an update, with the approved edit or its previous text;
+ * only users the edit newly mentions are told. Assistant commands in held
+ * messages are never run.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {ChatMessage} message - Reviewed message
+ * @param {boolean} wasShown - Whether the others saw the message before it was held
+ * @param {string[]} alreadyMentioned - Users told about the version shown before
+ * @returns {Promise<void>}
+ */
+const deliverReviewedMessage = async (
+    meetingId: string,
+    message: ChatMessage,
+    wasShown: boolean,
+    alreadyMentioned: string[]
+): Promise<void> => {
+    const participants = await getParticipants(meetingId);
+    const released = { ...message, heldForReview: undefined };
 
-            console.log(`✅ ${name} joined meeting ${meetingId}`);
-        } catch (error) {
-            console.error("Error joining meeting:", error);
-            socket.emit("error", { message: "Failed to join meeting" });
+    participants.forEach((p) => {
+        if (p.uid === message.userId) {
+            io.to(p.socketId).emit("message-updated", message);
+        } else if (!isMessageVisibleTo(released, p.uid)) {
+            return;
+        } else if (wasShown) {
+            io.to(p.socketId).emit("message-updated", message);
+        } else if (!message.deleted) {
+            io.to(p.socketId).emit(message.recipientId ? "private-message" : "new-message", message);
         }
     });
 
-    /**
-     * Event: send-message
-     * User sends a chat message
-     */
-    socket.on("send-message", async (data: {
-        meetingId: string;
-        text: string;
-    }) => {
-        try {
-            const { meetingId, text } = data;
-            const { uid, name } = socket.data;
+    if (message.deleted) {
+        return;
+    }
 
-            // Validate message
-            if (!isValidMessage(text)) {
-                socket.emit("error", { message: "Invalid message" });
-                return;
-            }
+    if (isPublicMessage(message)) {
+        notifyMentions(meetingId, message, participants, alreadyMentioned);
+    }
 
-            const message: ChatMessage = {
-                id: `${Date.now()}-${uid}`,
-                userId: uid,
-                userName: name,
-                text: text.trim(),
-                timestamp: new Date(),
-            };
+    autoTranslateMessage(meetingId, message);
+};
 
-            // Save message to Firestore
-            await addMessage(meetingId, message);
+/**
+ * A host's decision about a user waiting in the lobby
+ * @interface LobbyDecision
+ */
+interface LobbyDecision {
+    meetingId: string;
+    /** Socket the waiting user is connected with */
+    socketId: string;
+    admitted: boolean;
+}
 
-            // Broadcast message to all participants in the room
-            io.to(meetingId).emit("new-message", message);
+/**
+ * Applies a lobby decision to the waiting socket, if it is connected to this instance
+ * 
+ * @param {LobbyDecision} decision - Decision to apply
+ * @returns {Promise<boolean>} True if the socket was found here
+ */
+const deliverLobbyDecision = async (decision: LobbyDecision): Promise<boolean> => {
+    const socket = io.sockets.sockets.get(decision.socketId);
 
-            console.log(`💬 Message in ${meetingId} from ${name}: ${text}`);
-        } catch (error) {
-            console.error("Error sending message:", error);
-            socket.emit("error", { message: "Failed to send message" });
+    if (!socket) {
+        return false;
+    }
+
+    if (decision.admitted) {
+        const meeting = await getMeetingById(decision.meetingId);
+
+        if (meeting) {
+            await enterMeetingRoom(socket, meeting);
         }
-    });
+    } else {
+        socket.data.pendingMeetingId = undefined;
+        socket.emit("join-denied", { meetingId: decision.meetingId });
+    }
 
-    /**
-     * Event: disconnect
-     * User disconnects from the server
-     */
-    socket.on("disconnect", async () => {
-        try {
-            const { meetingId, name } = socket.data;
+    return true;
+};
 
-            if (meetingId) {
-                // Remove user from meeting
-                await leaveMeeting(meetingId, socket.id);
+/**
+ * Applies a lobby decision here, or relays it to the other instances
+ * when the waiting socket is connected elsewhere
+ * 
+ * @param {LobbyDecision} decision - Decision to apply
+ * @returns {Promise<void>}
+ */
+const sendLobbyDecision = async (decision: LobbyDecision): Promise<void> => {
+    if (!(await deliverLobbyDecision(decision))) {
+        io.serverSideEmit("lobby-decision", decision);
+    }
+};
 
-                // Get updated participant count
-                const participants = await getParticipants(meetingId);
+// Lobby decisions taken by hosts connected to other instances
+io.on("lobby-decision", (decision: LobbyDecision) => {
+    deliverLobbyDecision(decision).catch((err) =>
+        console.error("Error applying relayed lobby decision:", err)
+    );
+});
 
-                // Notify other participants
-                socket.to(meetingId).emit("user-left", {
-                    name,
-                    participantCount: participants.length,
-                });
+/**
+ * Admits a user from the lobby and moves their socket into the room
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to admit
+ * @returns {Promise<ModerationResult>}
+ */
+const applyAdmit = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    const result = await admitParticipant(meetingId, hostUid, targetUid);
 
-                console.log(`👋 ${name} left meeting ${meetingId}`);
-            }
+    if (result.success) {
+        await sendLobbyDecision({
+            meetingId,
+            socketId: result.participant!.socketId,
+            admitted: true,
+        });
+    }
 
-            console.log(`🔌 Client disconnected: ${socket.id}`);
-        } catch (error) {
-            console.error("Error handling disconnect:", error);
-        }
-    });
-});
+    return result;
+};
 
-// Start server
-const PORT = process.env.PORT || 3001;
+/**
+ * Rejects a user from the lobby and tells them
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to reject
+ * @returns {Promise<ModerationResult>}
+ */
+const applyDeny = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    const result = await denyParticipant(meetingId, hostUid, targetUid);
 
-httpServer.listen(PORT, () => {
-    console.log(`🚀 JoinUs Chat Server running on port ${PORT}`);
-    console.log(`📡 Socket.IO server ready for connections`);
-    console.log(`🌍 Environment: ${process.env.NODE_ENV || "development"}`);
-});
+    if (result.success) {
+        await sendLobbyDecision({
+            meetingId,
+            socketId: result.pending!.socketId,
+            admitted: false,
+        });
+    }
+
+    return result;
+};
+
+/**
+ * Removes a participant, disconnects their socket and notifies the room
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to remove
+ * @returns {Promise<ModerationResult>}
+ */
+const applyKick = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    const result = await kickParticipant(meetingId, hostUid, targetUid);
+
+    if (result.success) {
+        const { uid, name, socketId } = result.participant!;
+        io.to(socketId).emit("kicked", { meetingId });
+        io.in(socketId).socketsLeave(meetingId);
+        io.in(socketId).disconnectSockets(true);
+        io.to(meetingId).emit("participant-kicked", {
+            uid,
+            name,
+            participantCount: result.meeting!.participants.length,
+        });
+    }
+
+    return result;
+};
+
+/**
+ * Mutes or unmutes a participant's chat and notifies the room
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to mute or unmute
+ * @param {boolean} muted - New mute state
+ * @returns {Promise<ModerationResult>}
+ */
+const applyMute = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string,
+    muted: boolean
+): Promise<ModerationResult> => {
+    const result = await setParticipantMuted(meetingId, hostUid, targetUid, muted);
+
+    if (result.success) {
+        io.to(meetingId).emit("participant-muted", { uid: targetUid, muted });
+    }
+
+    return result;
+};
+
+/**
+ * Locks or unlocks a meeting and notifies the room
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {boolean} locked - New lock state
+ * @returns {Promise<ModerationResult>}
+ */
+const applyLock = async (
+    meetingId: string,
+    hostUid: string,
+    locked: boolean
+): Promise<ModerationResult> => {
+    const result = await setMeetingLocked(meetingId, hostUid, locked);
+
+    if (result.success) {
+        io.to(meetingId).emit("meeting-locked", { locked });
+    }
+
+    return result;
+};
+
+/**
+ * Turns the AI assistant on or off and notifies the room
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {boolean} enabled - New assistant state
+ * @returns {Promise<ModerationResult>}
+ */
+const applyAssistantEnabled = async (
+    meetingId: string,
+    hostUid: string,
+    enabled: boolean
+): Promise<ModerationResult> => {
+    const result = await setAssistantEnabled(meetingId, hostUid, enabled);
+
+    if (result.success) {
+        io.to(meetingId).emit("assistant-toggled", { enabled });
+    }
+
+    return result;
+};
+
+/**
+ * Transfers host rights and notifies the room
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the current host
+ * @param {string} targetUid - User ID of the new host
+ * @returns {Promise<ModerationResult>}
+ */
+const applyTransferHost = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    const result = await transferHost(meetingId, hostUid, targetUid);
+
+    if (result.success) {
+        io.to(meetingId).emit("host-changed", {
+            hostId: targetUid,
+            name: result.participant!.name,
+        });
+    }
+
+    return result;
+};
+
+/**
+ * Applies the host's review of a held message and delivers the outcome
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} recordId - Audit record of the held message
+ * @param {boolean} approve - Whether to release the message
+ * @returns {Promise<{success: boolean, record?: ModerationRecord, error?: string}>}
+ */
+const applyReview = async (
+    meetingId: string,
+    hostUid: string,
+    recordId: string,
+    approve: boolean
+): Promise<{ success: boolean; record?: ModerationRecord; error?: string }> => {
+    const result = await reviewHeldMessage(meetingId, hostUid, recordId, approve);
+
+    if (result.success) {
+        await deliverReviewedMessage(meetingId, result.message!, result.wasShown!, result.alreadyMentioned!);
+
+        const meeting = await getMeetingById(meetingId);
+
+        if (meeting) {
+            notifyHost(meeting, "moderation-reviewed", { record: result.record! });
+        }
+    }
+
+    return result;
+};
+
+/**
+ * HTTP endpoint to create a new meeting
+ * The authenticated caller becomes the host.
+ * POST /api/meetings/create
+ */
+app.post("/api/meetings/create", async (req: Request, res: Response) => {
+    try {
+        const { uid: createdBy, name: creatorName } = req.user!;
+        const lobbyEnabled = req.body?.lobbyEnabled === true;
+        const passcode = req.body?.passcode;
+        const language = req.body?.language;
+        const title = req.body?.title;
+        const durationMinutes = req.body?.durationMinutes;
+        const scheduledStart = req.body?.scheduledStart !== undefined
+            ? new Date(req.body.scheduledStart)
+            : undefined;
+
+        if (passcode !== undefined && !isValidPasscode(passcode)) {
+            return res.status(400).json({ error: "Passcode must be 4 to 64 characters" });
+        }
+
+        if (language !== undefined && !isLanguageCode(language)) {
+            return res.status(400).json({ error: "Unsupported language" });
+        }
+
+        if (title !== undefined && !isValidMeetingTitle(title)) {
+            return res.status(400).json({ error: "Title must be 1 to 120 characters" });
+        }
+
+        if (durationMinutes !== undefined && !isValidDuration(durationMinutes)) {
+            return res.status(400).json({ error: "Duration must be 1 to 1440 minutes" });
+        }
+
+        if (scheduledStart && (isNaN(scheduledStart.getTime()) || scheduledStart.getTime() < Date.now())) {
+            return res.status(400).json({ error: "Scheduled start must be a future date" });
+        }
+
+        const meeting = await createMeeting({
+            createdBy,
+            creatorName,
+            lobbyEnabled,
+            passcode,
+            language,
+            title,
+            scheduledStart,
+            durationMinutes,
+        });
+
+        // Never expose the passcode hash
+        const { passcodeHash, ...publicMeeting } = meeting;
+
+        res.status(201).json({
+            success: true,
+            meetingId: meeting.meetingId,
+            meeting: { ...publicMeeting, hasPasscode: !!passcodeHash },
+        });
+    } catch (error) {
+        console.error("Error creating meeting:", error);
+        res.status(500).json({ error: "Failed to create meeting" });
+    }
+});
+
+/**
+ * HTTP endpoint to end a meeting
+ * Only the authenticated host can end it.
+ * POST /api/meetings/end
+ */
+app.post("/api/meetings/end", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.body;
+
+        if (!meetingId) {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await endMeeting(meetingId, req.user!.uid);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        // Notify all participants that meeting ended
+        io.to(meetingId).emit("meeting-ended", { reason: "host" });
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error ending meeting:", error);
+        res.status(500).json({ error: "Failed to end meeting" });
+    }
+});
+
+/**
+ * HTTP endpoint to create a recurring meeting series
+ * The authenticated caller hosts every occurrence.
+ * POST /api/series
+ */
+app.post("/api/series", async (req: Request, res: Response) => {
+    try {
+        const { uid: createdBy, name: creatorName } = req.user!;
+        const { title, durationMinutes, frequency, passcode, language } = req.body ?? {};
+        const lobbyEnabled = req.body?.lobbyEnabled === true;
+        const firstStart = new Date(req.body?.firstStart);
+        const interval = req.body?.interval ?? 1;
+        const timeZone = req.body?.timeZone ?? "UTC";
+        const count = req.body?.count;
+        const until = req.body?.until !== undefined ? new Date(req.body.until) : undefined;
+
+        if (!isValidMeetingTitle(title)) {
+            return res.status(400).json({ error: "Title must be 1 to 120 characters" });
+        }
+
+        if (isNaN(firstStart.getTime()) || firstStart.getTime() < Date.now()) {
+            return res.status(400).json({ error: "First start must be a future date" });
+        }
+
+        if (!isValidDuration(durationMinutes)) {
+            return res.status(400).json({ error: "Duration must be 1 to 1440 minutes" });
+        }
+
+        if (!isRecurrenceFrequency(frequency)) {
+            return res.status(400).json({ error: "Frequency must be daily or weekly" });
+        }
+
+        if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+            return res.status(400).json({ error: "Interval must be 1 to 52" });
+        }
+
+        if (!isValidTimeZone(timeZone)) {
+            return res.status(400).json({ error: "Invalid time zone" });
+        }
+
+        if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+            return res.status(400).json({ error: "Count must be a positive integer" });
+        }
+
+        if (until && (isNaN(until.getTime()) || until < firstStart)) {
+            return res.status(400).json({ error: "Until must be a date after the first start" });
+        }
+
+        if (passcode !== undefined && !isValidPasscode(passcode)) {
+            return res.status(400).json({ error: "Passcode must be 4 to 64 characters" });
+        }
+
+        if (language !== undefined && !isLanguageCode(language)) {
+            return res.status(400).json({ error: "Unsupported language" });
+        }
+
+        const series = await createSeries({
+            createdBy,
+            creatorName,
+            title,
+            firstStart,
+            durationMinutes,
+            recurrence: { frequency, interval, timeZone, count, until },
+            lobbyEnabled,
+            passcode,
+            language,
+        });
+
+        // Never expose the passcode hash
+        const { passcodeHash, ...publicSeries } = series;
+
+        res.status(201).json({
+            success: true,
+            seriesId: series.seriesId,
+            series: { ...publicSeries, hasPasscode: !!passcodeHash },
+            nextOccurrence: getCurrentOccurrence(series),
+        });
+    } catch (error) {
+        console.error("Error creating meeting series:", error);
+        res.status(500).json({ error: "Failed to create meeting series" });
+    }
+});
+
+/**
+ * HTTP endpoint to view a meeting series and the summary of every occurrence
+ * Only the creator and people who joined an occurrence may see it.
+ * GET /api/series/:seriesId
+ */
+app.get("/api/series/:seriesId", async (req: Request, res: Response) => {
+    try {
+        const { seriesId } = req.params;
+
+        if (!isValidSeriesId(seriesId)) {
+            return res.status(400).json({ error: "Invalid series ID" });
+        }
+
+        const series = await getSeriesById(seriesId);
+
+        if (!series) {
+            return res.status(404).json({ error: "Meeting series not found" });
+        }
+
+        const occurrences = await getSeriesOccurrences(series, req.user!.uid);
+
+        if (!occurrences) {
+            return res.status(403).json({ error: "Only the host and participants can view this series" });
+        }
+
+        const { passcodeHash, ...publicSeries } = series;
+
+        res.json({
+            success: true,
+            series: { ...publicSeries, hasPasscode: !!passcodeHash },
+            nextOccurrence: getCurrentOccurrence(series),
+            occurrences,
+        });
+    } catch (error) {
+        console.error("Error getting meeting series:", error);
+        res.status(500).json({ error: "Failed to get meeting series" });
+    }
+});
+
+/**
+ * Parses an optional date query parameter
+ * 
+ * @param {unknown} value - Query value, e.g. "2025-01-31" or an ISO timestamp
+ * @returns {Date | undefined | null} The date, undefined when absent, null when invalid
+ */
+const parseDateQuery = (value: unknown): Date | undefined | null => {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const date = typeof value === "string" ? new Date(value) : new Date(NaN);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * HTTP endpoint to list the meetings a user created or joined, newest first
+ * Users can only list their own meetings.
+ * GET /api/users/:uid/meetings?from=&to=&before=&limit=
+ */
+app.get("/api/users/:uid/meetings", async (req: Request, res: Response) => {
+    try {
+        const { uid } = req.params;
+        const from = parseDateQuery(req.query.from);
+        const to = parseDateQuery(req.query.to);
+        const before = typeof req.query.before === "string" ? req.query.before : undefined;
+        const limit = Number(req.query.limit) || undefined;
+
+        if (uid !== req.user!.uid) {
+            return res.status(403).json({ error: "You can only list your own meetings" });
+        }
+
+        if (from === null || to === null) {
+            return res.status(400).json({ error: "Invalid date" });
+        }
+
+        const page = await getUserMeetings(uid, { from, to, before, limit });
+
+        res.json({ success: true, ...page });
+    } catch (error) {
+        console.error("Error listing user meetings:", error);
+        res.status(500).json({ error: "Failed to list meetings" });
+    }
+});
+
+/**
+ * HTTP endpoint to search message text and summaries of the caller's meetings
+ * GET /api/meetings/search?q=&limit=
+ */
+app.get("/api/meetings/search", async (req: Request, res: Response) => {
+    try {
+        const query = typeof req.query.q === "string" ? req.query.q : "";
+        const limit = Number(req.query.limit) || undefined;
+
+        const result = await searchMeetings(req.user!.uid, query, limit);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true, results: result.results });
+    } catch (error) {
+        console.error("Error searching meetings:", error);
+        res.status(500).json({ error: "Failed to search meetings" });
+    }
+});
+
+/**
+ * HTTP endpoint to get meeting info
+ * GET /api/meetings/:meetingId
+ */
+app.get("/api/meetings/:meetingId", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        const meeting = await getMeetingById(meetingId);
+        const participants = meeting?.participants || [];
+
+        res.json({
+            success: true,
+            participantCount: participants.length,
+            participants,
+            title: meeting?.title || null,
+            scheduledStart: meeting?.scheduledStart || null,
+            scheduledEnd: meeting?.scheduledEnd || null,
+            opensAt: meeting ? getJoinOpensAt(meeting) : null,
+            seriesId: meeting?.seriesId || null,
+        });
+    } catch (error) {
+        console.error("Error getting meeting:", error);
+        res.status(500).json({ error: "Failed to get meeting" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to issue a signed, expiring invite token
+ * The token lets its holder join without the passcode.
+ * POST /api/meetings/:meetingId/invites
+ */
+app.post("/api/meetings/:meetingId/invites", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const expiresInMinutes = Number(req.body?.expiresInMinutes) || undefined;
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        const result = await issueInviteToken(meetingId, req.user!.uid, expiresInMinutes);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.status(201).json({
+            success: true,
+            token: result.token,
+            expiresAt: result.expiresAt,
+        });
+    } catch (error) {
+        console.error("Error issuing invite:", error);
+        res.status(500).json({ error: "Failed to issue invite" });
+    }
+});
+
+/**
+ * HTTP endpoint to page through a meeting's chat history
+ * Only the host and people who joined the meeting may read it.
+ * GET /api/meetings/:meetingId/messages?before=<messageId>&limit=<n>
+ */
+app.get("/api/meetings/:meetingId/messages", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const before = typeof req.query.before === "string" ? req.query.before : undefined;
+        const limit = Number(req.query.limit) || undefined;
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        const meeting = await getMeetingById(meetingId);
+
+        if (!meeting) {
+            return res.status(404).json({ error: "Meeting not found" });
+        }
+
+        if (!isMeetingMember(meeting, req.user!.uid)) {
+            return res.status(403).json({ error: "Only the host and participants can read this meeting" });
+        }
+
+        const page = await getMessageHistory(meetingId, req.user!.uid, before, limit);
+
+        res.json({ success: true, ...page });
+    } catch (error) {
+        console.error("Error getting messages:", error);
+        res.status(500).json({ error: "Failed to get messages" });
+    }
+});
+
+/**
+ * HTTP endpoint to get a meeting's summary and the state of its generation
+ * Only the host and people who joined the meeting may read it.
+ * GET /api/meetings/:meetingId/summary
+ */
+app.get("/api/meetings/:meetingId/summary", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        const [meeting, job] = await Promise.all([getMeetingById(meetingId), getSummaryJob(meetingId)]);
+
+        if (!meeting) {
+            return res.status(404).json({ error: "Meeting not found" });
+        }
+
+        if (!isMeetingMember(meeting, req.user!.uid)) {
+            return res.status(403).json({ error: "Only the host and participants can read this meeting" });
+        }
+
+        res.json({
+            success: true,
+            status: meeting.summaryStatus || null,
+            summary: meeting.summary || null,
+            structuredSummary: meeting.structuredSummary || null,
+            summaryError: meeting.summaryStatus === "failed" ? meeting.summaryError || null : null,
+            progress: meeting.summaryProgress || null,
+            // Queue details carry raw provider errors, so only the host sees them
+            job: job && meeting.hostId === req.user!.uid
+                ? {
+                    status: job.status,
+                    attempts: job.attempts,
+                    maxAttempts: job.maxAttempts,
+                    runAfter: job.runAfter,
+                    updatedAt: job.updatedAt,
+                    lastError: job.error || null,
+                }
+                : null,
+        });
+    } catch (error) {
+        console.error("Error getting summary:", error);
+        res.status(500).json({ error: "Failed to get summary" });
+    }
+});
+
+/**
+ * HTTP endpoint to download a meeting's chat, attendees and summary
+ * Only the host and people who joined the meeting may export it.
+ * GET /api/meetings/:meetingId/export?format=md|txt|json|html&tz=Europe/Madrid
+ */
+app.get("/api/meetings/:meetingId/export", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const format = req.query.format ?? "md";
+        const timeZone = req.query.tz ?? "UTC";
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        if (!isExportFormat(format)) {
+            return res.status(400).json({ error: "Format must be md, txt, json or html" });
+        }
+
+        if (!isValidTimeZone(timeZone)) {
+            return res.status(400).json({ error: "Invalid time zone" });
+        }
+
+        const meeting = await getMeetingById(meetingId);
+
+        if (!meeting) {
+            return res.status(404).json({ error: "Meeting not found" });
+        }
+
+        if (!isMeetingMember(meeting, req.user!.uid)) {
+            return res.status(403).json({ error: "Only the host and participants can export this meeting" });
+        }
+
+        const file = await exportMeeting(meeting, req.user!.uid, format, timeZone);
+
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+        res.send(file.body);
+    } catch (error) {
+        console.error("Error exporting meeting:", error);
+        res.status(500).json({ error: "Failed to export meeting" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to generate a meeting's summary again
+ * POST /api/meetings/:meetingId/summary/regenerate
+ */
+app.post("/api/meetings/:meetingId/summary/regenerate", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        const result = await regenerateSummary(meetingId, req.user!.uid);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.status(202).json({ success: true, status: result.job!.status });
+    } catch (error) {
+        console.error("Error regenerating summary:", error);
+        res.status(500).json({ error: "Failed to regenerate summary" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to remove a participant
+ * POST /api/meetings/:meetingId/kick
+ */
+app.post("/api/meetings/:meetingId/kick", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const { uid } = req.body;
+
+        if (!isValidMeetingId(meetingId) || !uid) {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await applyKick(meetingId, req.user!.uid, uid);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error removing participant:", error);
+        res.status(500).json({ error: "Failed to remove participant" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to mute or unmute a participant's chat
+ * POST /api/meetings/:meetingId/mute
+ */
+app.post("/api/meetings/:meetingId/mute", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const { uid, muted } = req.body;
+
+        if (!isValidMeetingId(meetingId) || !uid || typeof muted !== "boolean") {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await applyMute(meetingId, req.user!.uid, uid, muted);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error muting participant:", error);
+        res.status(500).json({ error: "Failed to update participant" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to lock or unlock a meeting
+ * POST /api/meetings/:meetingId/lock
+ */
+app.post("/api/meetings/:meetingId/lock", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const { locked } = req.body;
+
+        if (!isValidMeetingId(meetingId) || typeof locked !== "boolean") {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await applyLock(meetingId, req.user!.uid, locked);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error locking meeting:", error);
+        res.status(500).json({ error: "Failed to update meeting" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to turn the AI assistant on or off
+ * POST /api/meetings/:meetingId/assistant
+ */
+app.post("/api/meetings/:meetingId/assistant", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const { enabled } = req.body;
+
+        if (!isValidMeetingId(meetingId) || typeof enabled !== "boolean") {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await applyAssistantEnabled(meetingId, req.user!.uid, enabled);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error toggling assistant:", error);
+        res.status(500).json({ error: "Failed to update meeting" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to hand host rights to another participant
+ * POST /api/meetings/:meetingId/transfer-host
+ */
+app.post("/api/meetings/:meetingId/transfer-host", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+        const { uid } = req.body;
+
+        if (!isValidMeetingId(meetingId) || !uid) {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await applyTransferHost(meetingId, req.user!.uid, uid);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error transferring host:", error);
+        res.status(500).json({ error: "Failed to transfer host" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to audit the flagged messages of a meeting
+ * GET /api/meetings/:meetingId/moderation
+ */
+app.get("/api/meetings/:meetingId/moderation", async (req: Request, res: Response) => {
+    try {
+        const { meetingId } = req.params;
+
+        if (!isValidMeetingId(meetingId)) {
+            return res.status(400).json({ error: "Invalid meeting ID" });
+        }
+
+        const result = await getModerationRecords(meetingId, req.user!.uid);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ meetingId, records: result.records });
+    } catch (error) {
+        console.error("Error getting moderation records:", error);
+        res.status(500).json({ error: "Failed to get moderation records" });
+    }
+});
+
+/**
+ * HTTP endpoint for the host to approve or reject a message held for review
+ * POST /api/meetings/:meetingId/moderation/:recordId/review
+ */
+app.post("/api/meetings/:meetingId/moderation/:recordId/review", async (req: Request, res: Response) => {
+    try {
+        const { meetingId, recordId } = req.params;
+        const approve = req.body?.approve;
+
+        if (!isValidMeetingId(meetingId) || typeof approve !== "boolean") {
+            return res.status(400).json({ error: "Missing required fields" });
+        }
+
+        const result = await applyReview(meetingId, req.user!.uid, recordId, approve);
+
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.json({ success: true, record: result.record });
+    } catch (error) {
+        console.error("Error reviewing message:", error);
+        res.status(500).json({ error: "Failed to review message" });
+    }
+});
+
+/**
+ * Health check endpoint
+ */
+app.get("/", (_req: Request, res: Response) => {
+    res.send("JoinUs Chat Server is running 🚀");
+});
+
+/**
+ * Socket.IO connection handler
+ */
+io.on("connection", (socket: ChatSocket) => {
+    console.log(`🔌 Client connected: ${socket.id}`);
+
+    // Every event is charged to the socket, its user and its meeting before it is handled
+    socket.use(([event, data], next) => {
+        if (UNLIMITED_EVENTS.has(event)) {
+            return next();
+        }
+
+        const { uid } = socket.data;
+        const meetingId = event === "join-meeting"
+            ? data?.meetingId
+            : socket.data.meetingId || socket.data.pendingMeetingId;
+        const buckets: [RateLimiter, string][] = [[socketLimiter, socket.id], [userLimiter, uid]];
+
+        if (typeof meetingId === "string") {
+            buckets.push([meetingLimiter, meetingId]);
+        }
+
+        if (event === "join-meeting") {
+            buckets.push([joinLimiter, `socket:${socket.id}`], [joinLimiter, `uid:${uid}`]);
+        }
+
+        const retryAfterMs = consumeTokens(buckets);
+
+        if (retryAfterMs > 0) {
+            emitRateLimited(socket, event, "rate", retryAfterMs);
+            return;
+        }
+
+        next();
+    });
+
+    // Events outside the contract, or with a payload not matching it, never reach the handlers
+    socket.use(createEventValidator(socket));
+
+    /**
+     * Event: join-meeting
+     * User joins a meeting room with the identity verified at handshake.
+     * A series ID joins the current occurrence of that recurring meeting.
+     */
+    socket.on("join-meeting", async (data) => {
+        try {
+            const { passcode, inviteToken } = data;
+            const { uid, name } = socket.data;
+            let { meetingId } = data;
+
+            // Recurring meetings are joined through the meeting of their current occurrence
+            if (isValidSeriesId(meetingId)) {
+                const occurrence = await resolveSeriesMeeting(meetingId);
+
+                if (!occurrence.success) {
+                    socket.emit("join-error", { code: "rejected", message: occurrence.error! });
+                    return;
+                }
+
+                meetingId = occurrence.meetingId!;
+            }
+
+            // Refuse while this socket or IP has too many failed passcode attempts
+            const attemptKeys = [`socket:${socket.id}`, `uid:${uid}`, `ip:${getClientIp(socket)}`];
+            const retryAfterMs = Math.max(...attemptKeys.map((key) => passcodeAttempts.retryAfter(key)));
+
+            if (retryAfterMs > 0) {
+                socket.emit("join-error", {
+                    code: "rejected",
+                    message: "Too many failed passcode attempts, try again later",
+                    retryAfterMs,
+                });
+                return;
+            }
+
+            // Join meeting
+            const result = await joinMeeting({
+                meetingId,
+                uid,
+                name,
+                socketId: socket.id,
+                passcode,
+                inviteToken,
+            });
+
+            if (!result.success) {
+                // Count only actual guesses, not a first attempt without credentials
+                if (result.passcodeRejected && (passcode || inviteToken)) {
+                    attemptKeys.forEach((key) => passcodeAttempts.recordFailure(key));
+                }
+                socket.emit("join-error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            // Wait for the host in lobby mode
+            if (result.pending) {
+                socket.data.pendingMeetingId = meetingId;
+                socket.emit("lobby-waiting", { meetingId });
+                notifyHost(result.meeting!, "join-request", { uid, name });
+                return;
+            }
+
+            await enterMeetingRoom(socket, result.meeting!, result.reconnected);
+
+            console.log(`✅ ${name} joined meeting ${meetingId}`);
+        } catch (error) {
+            console.error("Error joining meeting:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to join meeting" });
+        }
+    });
+
+    /**
+     * Event: send-message
+     * User sends a chat message, optionally as a reply to another message.
+     * `/summarize [minutes]` and `/ask <question>` also get an answer from the AI assistant.
+     */
+    socket.on("send-message", async (data) => {
+        try {
+            const { text, replyToId } = data;
+            const { meetingId, uid, name } = socket.data;
+
+            // Messages only go to the meeting this socket joined
+            if (data.meetingId !== undefined && data.meetingId !== meetingId) {
+                socket.emit("error", {
+                    code: "not-in-meeting",
+                    event: "send-message",
+                    message: "Not in this meeting",
+                });
+                return;
+            }
+
+            if (await isParticipantMuted(meetingId, uid)) {
+                socket.emit("error", { code: "rejected", message: "You have been muted by the host" });
+                return;
+            }
+
+            if (replyToId !== undefined && !(await getMessage(meetingId, replyToId, uid))) {
+                socket.emit("error", { code: "rejected", message: "Reply target not found" });
+                return;
+            }
+
+            const repeatAfterMs = repeatDetector.check(`${meetingId}:${uid}`, text);
+
+            if (repeatAfterMs > 0) {
+                emitRateLimited(socket, "send-message", "duplicate", repeatAfterMs);
+                return;
+            }
+
+            const moderation = await moderateText(text);
+
+            if (moderation.action === "reject") {
+                await reportModeration(socket, meetingId, text, moderation);
+                return;
+            }
+
+            const held = moderation.action === "hold";
+
+            // Assistant commands are checked before posting so rejected ones leave no trace;
+            // held messages are never run as commands, even once the host approves them
+            const assistant = held ? null : parseAssistantCommand(moderation.text);
+
+            if (assistant?.error) {
+                socket.emit("error", { code: "rejected", message: assistant.error! });
+                return;
+            }
+
+            if (assistant) {
+                const meeting = await getMeetingById(meetingId);
+
+                if (!meeting) {
+                    socket.emit("error", { code: "rejected", message: "Meeting not found" });
+                    return;
+                }
+
+                const reservation = reserveAssistantRequest(meeting);
+
+                if (!reservation.allowed) {
+                    socket.emit("error", {
+                        code: "rejected",
+                        message: reservation.error!,
+                        retryAfterMs: reservation.retryAfterMs,
+                    });
+                    return;
+                }
+            }
+
+            const participants = await getParticipants(meetingId);
+
+            const message: ChatMessage = {
+                id: randomUUID(),
+                userId: uid,
+                userName: name,
+                text: moderation.text.trim(),
+                timestamp: new Date(),
+                mentions: extractMentions(moderation.text, participants),
+            };
+
+            if (replyToId !== undefined) {
+                message.replyToId = replyToId;
+            }
+
+            if (held) {
+                message.heldForReview = true;
+            }
+
+            // Save message to storage
+            await addMessage(meetingId, message);
+
+            // Held messages reach only their sender until the host reviews them
+            if (held) {
+                await reportModeration(socket, meetingId, text, moderation, message);
+                return;
+            }
+
+            // Broadcast message to all participants in the room
+            io.to(meetingId).emit("new-message", message);
+
+            // Sending a message ends the sender's typing state
+            if (await typingTracker.stop(meetingId, uid)) {
+                broadcastTyping(meetingId);
+            }
+
+            notifyMentions(meetingId, message, participants);
+
+            console.log(`💬 Message in ${meetingId} from ${name}: ${message.text}`);
+
+            await reportModeration(socket, meetingId, text, moderation, message);
+
+            autoTranslateMessage(meetingId, message);
+
+            // The answer can take a while, so it is posted once ready
+            if (assistant?.command) {
+                runAssistantCommand(meetingId, assistant.command, message)
+                    .then((result) => {
+                        if (result.success) {
+                            io.to(meetingId).emit("new-message", result.message!);
+                            autoTranslateMessage(meetingId, result.message!);
+                        } else {
+                            socket.emit("error", { code: "rejected", message: result.error! });
+                        }
+                    })
+                    .catch((err) => {
+                        console.error("Error running assistant command:", err);
+                        socket.emit("error", { code: "internal-error", message: "The assistant could not answer, try again later" });
+                    });
+            }
+        } catch (error) {
+            console.error("Error sending message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to send message" });
+        }
+    });
+
+    /**
+     * Event: send-private-message
+     * User sends a direct message to one participant of the meeting
+     */
+    socket.on("send-private-message", async (data) => {
+        try {
+            const { meetingId, uid, name } = socket.data;
+            const { recipientId, text } = data;
+
+            if (await isParticipantMuted(meetingId, uid)) {
+                socket.emit("error", { code: "rejected", message: "You have been muted by the host" });
+                return;
+            }
+
+            const participants = await getParticipants(meetingId);
+            const recipient = participants.find((p) => p.uid === recipientId);
+
+            if (!recipient || recipient.uid === uid) {
+                socket.emit("error", { code: "rejected", message: "Recipient is not in the meeting" });
+                return;
+            }
+
+            const repeatAfterMs = repeatDetector.check(`${meetingId}:${uid}:${recipient.uid}`, text);
+
+            if (repeatAfterMs > 0) {
+                emitRateLimited(socket, "send-private-message", "duplicate", repeatAfterMs);
+                return;
+            }
+
+            const moderation = await moderateText(text);
+
+            if (moderation.action === "reject") {
+                await reportModeration(socket, meetingId, text, moderation);
+                return;
+            }
+
+            const message: ChatMessage = {
+                id: randomUUID(),
+                userId: uid,
+                userName: name,
+                text: moderation.text.trim(),
+                timestamp: new Date(),
+                recipientId: recipient.uid,
+                recipientName: recipient.name,
+            };
+
+            if (moderation.action === "hold") {
+                message.heldForReview = true;
+            }
+
+            await addMessage(meetingId, message);
+            await reportModeration(socket, meetingId, text, moderation, message);
+
+            // Held messages reach the recipient once the host approves them
+            if (message.heldForReview) {
+                return;
+            }
+
+            // Deliver to the recipient's current socket and echo to the sender
+            io.to(recipient.socketId).emit("private-message", message);
+            socket.emit("private-message", message);
+
+            console.log(`🔒 Private message in ${meetingId} from ${name} to ${recipient.name}`);
+
+            autoTranslateMessage(meetingId, message);
+        } catch (error) {
+            console.error("Error sending private message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to send message" });
+        }
+    });
+
+    /**
+     * Event: edit-message
+     * Author edits the text of one of their messages
+     */
+    socket.on("edit-message", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+
+            if (await isParticipantMuted(meetingId, uid)) {
+                socket.emit("error", { code: "rejected", message: "You have been muted by the host" });
+                return;
+            }
+
+            // Edits go through the same moderation as new messages
+            const moderation = await moderateText(data.text);
+
+            if (moderation.action === "reject") {
+                await reportModeration(socket, meetingId, data.text, moderation);
+                return;
+            }
+
+            const held = moderation.action === "hold";
+            const participants = await getParticipants(meetingId);
+            const mentions = extractMentions(moderation.text, participants);
+            const result = await editMessage(meetingId, uid, data.messageId, moderation.text, mentions, held);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            await reportModeration(socket, meetingId, data.text, moderation, result.message);
+
+            // A held edit only reaches the others once the host approves it
+            if (held) {
+                return;
+            }
+
+            await emitMessageUpdate(meetingId, result.message!);
+
+            // Only users the edit newly mentions are told
+            if (isPublicMessage(result.message!)) {
+                notifyMentions(meetingId, result.message!, participants, result.previousMentions);
+            }
+
+            autoTranslateMessage(meetingId, result.message!);
+        } catch (error) {
+            console.error("Error editing message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to edit message" });
+        }
+    });
+
+    /**
+     * Event: delete-message
+     * Author or host deletes a message
+     */
+    socket.on("delete-message", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await deleteMessage(meetingId, uid, data.messageId);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            await emitMessageUpdate(meetingId, result.message!);
+        } catch (error) {
+            console.error("Error deleting message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to delete message" });
+        }
+    });
+
+    /**
+     * Event: react-message
+     * User adds or removes a reaction on a message
+     */
+    socket.on("react-message", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+
+            if (await isParticipantMuted(meetingId, uid)) {
+                socket.emit("error", { code: "rejected", message: "You have been muted by the host" });
+                return;
+            }
+
+            const result = await toggleReaction(meetingId, uid, data.messageId, data.emoji);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            await emitMessageUpdate(meetingId, result.message!);
+        } catch (error) {
+            console.error("Error reacting to message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to react to message" });
+        }
+    });
+
+    /**
+     * Event: typing-start
+     * User started or keeps composing a message
+     */
+    socket.on("typing-start", async () => {
+        try {
+            const { meetingId, uid, name } = socket.data;
+
+            if (meetingId && await typingTracker.start(meetingId, uid, name)) {
+                broadcastTyping(meetingId);
+            }
+        } catch (error) {
+            console.error("Error starting typing:", error);
+        }
+    });
+
+    /**
+     * Event: typing-stop
+     * User stopped composing a message
+     */
+    socket.on("typing-stop", async () => {
+        try {
+            const { meetingId, uid } = socket.data;
+
+            if (meetingId && await typingTracker.stop(meetingId, uid)) {
+                broadcastTyping(meetingId);
+            }
+        } catch (error) {
+            console.error("Error stopping typing:", error);
+        }
+    });
+
+    /**
+     * Event: mark-read
+     * User has read the meeting up to a message
+     */
+    socket.on("mark-read", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await markRead(meetingId, uid, data.messageId);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            if (result.changed) {
+                io.to(meetingId).emit("read-receipt", {
+                    uid,
+                    messageId: result.position!.messageId,
+                    readAt: result.position!.readAt,
+                });
+            }
+        } catch (error) {
+            console.error("Error marking message as read:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to mark message as read" });
+        }
+    });
+
+    /**
+     * Event: load-history
+     * User requests older messages of the meeting they joined
+     */
+    socket.on("load-history", async (data) => {
+        try {
+            const { meetingId } = socket.data;
+            const page = await getMessageHistory(meetingId, socket.data.uid, data.before, data.limit);
+            socket.emit("history", page);
+        } catch (error) {
+            console.error("Error loading history:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to load history" });
+        }
+    });
+
+    /**
+     * Event: admit
+     * Host lets a user waiting in the lobby into the meeting
+     */
+    socket.on("admit", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyAdmit(meetingId, uid, data.uid);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error admitting participant:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to admit participant" });
+        }
+    });
+
+    /**
+     * Event: deny
+     * Host rejects a user waiting in the lobby
+     */
+    socket.on("deny", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyDeny(meetingId, uid, data.uid);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error denying participant:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to deny participant" });
+        }
+    });
+
+    /**
+     * Event: kick-participant
+     * Host removes a participant from the meeting
+     */
+    socket.on("kick-participant", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyKick(meetingId, uid, data.uid);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error removing participant:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to remove participant" });
+        }
+    });
+
+    /**
+     * Event: mute-participant
+     * Host stops or allows a participant chatting
+     */
+    socket.on("mute-participant", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyMute(meetingId, uid, data.uid, data.muted);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error muting participant:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to update participant" });
+        }
+    });
+
+    /**
+     * Event: translate-message
+     * User asks for a message translated to a language; only they receive it
+     */
+    socket.on("translate-message", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await translateMessage(meetingId, data.messageId, uid, data.language);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            socket.emit("message-translated", result.translation!);
+        } catch (error) {
+            console.error("Error translating message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to translate message" });
+        }
+    });
+
+    /**
+     * Event: set-auto-translate
+     * User chooses a language new messages are translated to, or null to stop
+     */
+    socket.on("set-auto-translate", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await setAutoTranslate(meetingId, uid, data.language);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+                return;
+            }
+
+            socket.emit("auto-translate-set", { language: result.language ?? null });
+        } catch (error) {
+            console.error("Error setting auto-translate:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to update meeting" });
+        }
+    });
+
+    /**
+     * Event: lock-meeting
+     * Host locks or unlocks the meeting against new joins
+     */
+    socket.on("lock-meeting", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyLock(meetingId, uid, data.locked);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error locking meeting:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to update meeting" });
+        }
+    });
+
+    /**
+     * Event: set-assistant
+     * Host turns the AI assistant on or off
+     */
+    socket.on("set-assistant", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyAssistantEnabled(meetingId, uid, data.enabled);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error toggling assistant:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to update meeting" });
+        }
+    });
+
+    /**
+     * Event: transfer-host
+     * Host hands host rights to another participant
+     */
+    socket.on("transfer-host", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyTransferHost(meetingId, uid, data.uid);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error transferring host:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to transfer host" });
+        }
+    });
+
+    /**
+     * Event: review-message
+     * Host approves or rejects a message held for review
+     */
+    socket.on("review-message", async (data) => {
+        try {
+            const { meetingId, uid } = socket.data;
+            const result = await applyReview(meetingId, uid, data.recordId, data.approve);
+
+            if (!result.success) {
+                socket.emit("error", { code: "rejected", message: result.error! });
+            }
+        } catch (error) {
+            console.error("Error reviewing message:", error);
+            socket.emit("error", { code: "internal-error", message: "Failed to review message" });
+        }
+    });
+
+    /**
+     * Event: disconnect
+     * User disconnects from the server
+     */
+    socket.on("disconnect", async () => {
+        try {
+            const { meetingId, pendingMeetingId, uid, name } = socket.data;
+
+            // Withdraw a join request still waiting in the lobby
+            if (pendingMeetingId) {
+                const pending = await leaveLobby(pendingMeetingId, socket.id);
+                const meeting = pending ? await getMeetingById(pendingMeetingId) : null;
+
+                if (meeting) {
+                    notifyHost(meeting, "join-request-cancelled", { uid: pending!.uid });
+                }
+            }
+
+            if (meetingId && await typingTracker.stop(meetingId, uid)) {
+                broadcastTyping(meetingId);
+            }
+
+            if (meetingId) {
+                // Keep the slot for a while so a network blip does not end the meeting
+                const participant = RECONNECT_GRACE_MS > 0
+                    ? await markParticipantDisconnected(meetingId, socket.id)
+                    : null;
+
+                if (participant) {
+                    io.to(meetingId).emit("participant-reconnecting", { uid, name });
+
+                    const graceKey = `${meetingId}:${uid}`;
+                    clearTimeout(graceTimers.get(graceKey));
+                    graceTimers.set(graceKey, setTimeout(() => {
+                        graceTimers.delete(graceKey);
+                        removeParticipant(meetingId, socket.id, uid, name)
+                            .catch((err) => console.error("Error removing participant:", err));
+                    }, RECONNECT_GRACE_MS));
+
+                    console.log(`⏳ ${name} disconnected from meeting ${meetingId}, waiting for reconnection`);
+                } else {
+                    await removeParticipant(meetingId, socket.id, uid, name);
+                }
+            }
+
+            socketLimiter.reset(socket.id);
+            joinLimiter.reset(`socket:${socket.id}`);
+
+            console.log(`🔌 Client disconnected: ${socket.id}`);
+        } catch (error) {
+            console.error("Error handling disconnect:", error);
+        }
+    });
+});
+
+// Start server
+const PORT = process.env.PORT || 3001;
+
+configureSocketAdapter(io)
+    .then(() => {
+        startSummaryWorker();
+        startMeetingScheduler();
+
+        httpServer.listen(PORT, () => {
+            console.log(`🚀 JoinUs Chat Server running on port ${PORT}`);
+            console.log(`📡 Socket.IO server ready for connections`);
+            console.log(`🌍 Environment: ${process.env.NODE_ENV || "development"}`);
+        });
+    })
+    .catch((error) => {
+        console.error("Failed to configure Socket.IO adapter:", error);
+        process.exit(1);
+    });
@@ -1,69 +1,572 @@
-import Groq from "groq-sdk";
-import { ChatMessage } from "../models/meeting";
+/**
+ * AI Service
+ * 
+ * Builds meeting summaries from the chat transcript. Completions go through
+ * the configured SummaryProvider and are retried with exponential backoff.
+ * Transcripts too long for one prompt are summarized in chunks (map) whose
+ * partial summaries are then merged (reduce). Also answers the in-meeting
+ * assistant commands, translates chat messages and classifies them for
+ * content moderation. Prompts are written in
+ * Spanish and ask the model to answer in the meeting's language.
+ * 
+ * @module services/aiService
+ */
+
 import dotenv from "dotenv";
+import { ChatMessage, StructuredSummary, SummaryProgress } from "../models/meeting";
+import { getSummaryProvider } from "../providers/summaryProvider";
+import { withRetries } from "../utils/retry";
+import {
+    parseStructuredSummary,
+    renderStructuredSummary,
+    SummaryParticipant,
+} from "../utils/structuredSummary";
+import {
+    chunkByTokens,
+    estimateMessageTokens,
+    estimateTokens,
+    takeLastByTokens,
+} from "../utils/transcriptChunker";
+import { getLanguageTexts, LanguageCode } from "../utils/language";
 
 dotenv.config();
 
-// Initialize Groq API
-// Ensure you have GROQ_API_KEY in your .env file
-const groq = new Groq({
-    apiKey: process.env.GROQ_API_KEY || ""
-});
+/**
+ * Number of attempts per completion and delay before the first retry
+ */
+const SUMMARY_MAX_ATTEMPTS = Number(process.env.SUMMARY_MAX_ATTEMPTS) || 3;
+const SUMMARY_RETRY_BASE_MS = Number(process.env.SUMMARY_RETRY_BASE_MS) || 1000;
+
+/**
+ * Summary format: "text" (default) or "structured" JSON
+ */
+const SUMMARY_FORMAT = process.env.SUMMARY_FORMAT === "structured" ? "structured" : "text";
+
+/**
+ * Estimated tokens of source material (transcript or partial summaries) per prompt
+ */
+const SUMMARY_CHUNK_TOKENS = Number(process.env.SUMMARY_CHUNK_TOKENS) || 3000;
+
+/**
+ * Maximum tokens generated for a final summary and for each partial summary
+ */
+const SUMMARY_MAX_TOKENS = 1024;
+const PARTIAL_SUMMARY_MAX_TOKENS = 512;
+
+/**
+ * Times a malformed structured summary is sent back to the model for repair
+ */
+const STRUCTURED_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Result of a summary generation
+ * @interface SummaryResult
+ */
+export interface SummaryResult {
+    success: boolean;
+    /** Generated summary, when successful */
+    summary?: string;
+    /** Structured summary, in structured mode */
+    structuredSummary?: StructuredSummary;
+    /** Reason of the failure; never meant to be shown as summary text */
+    error?: string;
+}
+
+/**
+ * Formats one message as a transcript line
+ */
+const formatMessage = (msg: ChatMessage): string => {
+    const time = msg.timestamp instanceof Date 
+        ? msg.timestamp.toLocaleString() 
+        : (msg.timestamp as any).toDate().toLocaleString();
+    return `${msg.userName} (${time}): ${msg.text}`;
+};
+
+/**
+ * Builds the chat transcript keeping thread structure:
+ * replies are listed under the message they answer, indented one level per depth.
+ * Deleted messages are left out; replies to them are shown as top-level messages.
+ * 
+ * @param {ChatMessage[]} messages - Messages ordered oldest to newest
+ * @returns {string} Transcript text
+ */
+export const buildTranscript = (messages: ChatMessage[]): string => {
+    const visible = messages.filter(msg => !msg.deleted);
+    const ids = new Set(visible.map(msg => msg.id));
+    const replies = new Map<string, ChatMessage[]>();
+    const roots: ChatMessage[] = [];
+
+    for (const msg of visible) {
+        if (msg.replyToId && ids.has(msg.replyToId)) {
+            replies.set(msg.replyToId, [...(replies.get(msg.replyToId) || []), msg]);
+        } else {
+            roots.push(msg);
+        }
+    }
+
+    const lines: string[] = [];
+    const visit = (msg: ChatMessage, depth: number): void => {
+        const prefix = depth > 0 ? `${"  ".repeat(depth)}↳ ` : "";
+        lines.push(prefix + formatMessage(msg));
+        (replies.get(msg.id) || []).forEach(reply => visit(reply, depth + 1));
+    };
+    roots.forEach(root => visit(root, 0));
+
+    return lines.join("\n");
+};
+
+/**
+ * Reply of the in-meeting assistant
+ * @interface AssistantReply
+ */
+export interface AssistantReply {
+    success: boolean;
+    /** Text to post in the chat, when successful */
+    text?: string;
+    /** Reason of the failure */
+    error?: string;
+}
+
+/**
+ * Result of a message translation
+ * @interface TranslationResult
+ */
+export interface TranslationResult {
+    success: boolean;
+    /** Translated text, when successful */
+    text?: string;
+    /** Reason of the failure */
+    error?: string;
+}
+
+/**
+ * Result of a content moderation classification
+ * @interface ClassificationResult
+ */
+export interface ClassificationResult {
+    success: boolean;
+    /** Whether the message is inappropriate, when successful */
+    flagged?: boolean;
+    /** Kind of problem found, e.g. "harassment" */
+    category?: string;
+    /** Reason of the failure */
+    error?: string;
+}
+
+/**
+ * Receives progress updates while a summary is generated
+ */
+export type SummaryProgressListener = (progress: SummaryProgress) => void;
+
+/**
+ * Sends a prompt to the configured provider, retrying failed requests
+ * 
+ * @param {string} prompt - Prompt text
+ * @param {boolean} json - Whether a JSON object is expected
+ * @param {number} [maxTokens] - Maximum tokens to generate
+ * @returns {Promise<string>} Completion text
+ */
+const complete = (prompt: string, json: boolean, maxTokens: number = SUMMARY_MAX_TOKENS): Promise<string> => {
+    const provider = getSummaryProvider();
+    return withRetries(
+        () => provider.complete(prompt, { temperature: json ? 0.2 : 0.7, maxTokens, json }),
+        SUMMARY_MAX_ATTEMPTS,
+        SUMMARY_RETRY_BASE_MS
+    );
+};
+
+/**
+ * Prompt line asking the model to write in the given language
+ * 
+ * @param {LanguageCode} [language] - Language code
+ * @returns {string} Instruction, in the prompt language
+ */
+const answerIn = (language?: LanguageCode): string =>
+    `Escribe toda tu respuesta en ${getLanguageTexts(language).promptName}, sin importar el idioma del chat.`;
+
+/**
+ * Lists the distinct authors of a transcript
+ * 
+ * @param {ChatMessage[]} messages - Chat messages
+ * @returns {SummaryParticipant[]} Authors in order of first message
+ */
+const getAuthors = (messages: ChatMessage[]): SummaryParticipant[] => {
+    const authors = new Map<string, string>();
+    messages.forEach(msg => authors.set(msg.userId, authors.get(msg.userId) || msg.userName));
+    return [...authors].map(([uid, name]) => ({ uid, name }));
+};
+
+/**
+ * Describes the JSON schema the model must follow
+ */
+const STRUCTURED_SCHEMA = `{
+  "keyPoints": ["punto clave", ...],
+  "decisions": ["decisión tomada", ...],
+  "actionItems": [
+    { "description": "tarea", "assignee": "uid del responsable, si lo hay", "dueDate": "AAAA-MM-DD, si se mencionó" }
+  ],
+  "topics": ["tema corto", ...]
+}`;
+
+/**
+ * Material a final summary is written from: the whole transcript, or the
+ * partial summaries of its chunks
+ * 
+ * @param {string[]} partials - Partial summaries; empty when the transcript fits in one prompt
+ * @param {ChatMessage[]} messages - Chat messages
+ * @returns {string} Prompt section
+ */
+const describeSource = (partials: string[], messages: ChatMessage[]): string => {
+    if (partials.length === 0) {
+        return `Las respuestas aparecen sangradas con "↳" debajo del mensaje al que responden.
+
+Transcripción del chat:
+${buildTranscript(messages)}`;
+    }
+
+    return `La transcripción era demasiado larga y se resumió por partes.
+
+Resúmenes parciales, en orden:
+${partials.map((partial, i) => `--- Parte ${i + 1} ---\n${partial}`).join("\n\n")}`;
+};
+
+/**
+ * Summarizes one chunk of the transcript (map step)
+ * 
+ * @param {ChatMessage[]} chunk - Consecutive messages
+ * @param {number} index - Chunk position, starting at 0
+ * @param {number} total - Number of chunks
+ * @param {LanguageCode} [language] - Language of the summary
+ * @returns {Promise<string>} Partial summary
+ */
+const summarizeChunk = async (
+    chunk: ChatMessage[],
+    index: number,
+    total: number,
+    language?: LanguageCode
+): Promise<string> => {
+    const prompt = `Actúa como un asistente virtual experto en resumir reuniones.
+A continuación se presenta la parte ${index + 1} de ${total} de la transcripción del chat de una reunión virtual.
+Las respuestas aparecen sangradas con "↳" debajo del mensaje al que responden.
+Resume de forma concisa los puntos clave, decisiones y tareas de esta parte,
+indicando el nombre del responsable y la fecha de cada tarea si se mencionan.
+${answerIn(language)}
+
+Transcripción:
+${buildTranscript(chunk)}
+
+Resumen de la parte ${index + 1}:`;
+
+    return (await complete(prompt, false, PARTIAL_SUMMARY_MAX_TOKENS)).trim();
+};
+
+/**
+ * Merges consecutive partial summaries into one (reduce step)
+ * 
+ * @param {string[]} partials - Partial summaries, in order
+ * @param {number} maxTokens - Maximum tokens to generate
+ * @param {LanguageCode} [language] - Language of the summary
+ * @returns {Promise<string>} Merged summary
+ */
+const mergeSummaries = async (partials: string[], maxTokens: number, language?: LanguageCode): Promise<string> => {
+    const prompt = `Actúa como un asistente virtual experto en resumir reuniones.
+A continuación se presentan resúmenes parciales consecutivos de una misma reunión virtual.
+Combínalos en un único resumen conciso y estructurado de los puntos clave discutidos,
+decisiones tomadas y tareas asignadas si las hay, sin repetir información.
+${answerIn(language)}
+
+${partials.map((partial, i) => `--- Parte ${i + 1} ---\n${partial}`).join("\n\n")}
+
+Resumen:`;
+
+    return (await complete(prompt, false, maxTokens)).trim();
+};
 
 /**
- * Generates a summary of the meeting chat using Groq AI (Llama model)
+ * Generates a structured summary, sending malformed output back to the model for repair
+ * 
+ * @param {ChatMessage[]} messages - Chat messages
+ * @param {string} source - Material to summarize, from describeSource
+ * @param {LanguageCode} [language] - Language of the summary texts
+ * @returns {Promise<SummaryResult>} Structured summary and its text rendering
+ */
+const generateStructuredSummary = async (
+    messages: ChatMessage[],
+    source: string,
+    language?: LanguageCode
+): Promise<SummaryResult> => {
+    const participants = getAuthors(messages);
+    const meetingDate = messages[0].timestamp.toISOString().slice(0, 10);
+
+    let prompt = `Actúa como un asistente virtual experto en resumir reuniones.
+A continuación se presenta el chat de una reunión virtual del ${meetingDate}.
+Responde únicamente con un objeto JSON con este esquema:
+${STRUCTURED_SCHEMA}
+
+Usa como "assignee" el uid del participante responsable de cada tarea, y convierte las
+fechas relativas ("el viernes") a AAAA-MM-DD tomando como referencia la fecha de la reunión.
+Deja las listas vacías si no hay elementos. Las claves del JSON no se traducen.
+${answerIn(language)}
+
+Participantes:
+${participants.map(p => `- ${p.name} (uid: ${p.uid})`).join("\n")}
+
+${source}`;
+
+    let lastError = "";
+
+    for (let attempt = 0; attempt <= STRUCTURED_REPAIR_ATTEMPTS; attempt++) {
+        const raw = await complete(prompt, true);
+        const { summary, error } = parseStructuredSummary(raw, participants);
+
+        if (summary) {
+            return {
+                success: true,
+                summary: renderStructuredSummary(summary, language),
+                structuredSummary: summary,
+            };
+        }
+
+        lastError = error || "Invalid structured summary";
+        console.warn(`⚠️ Malformed structured summary (${lastError}), asking the model to repair it`);
+        prompt = `Tu respuesta anterior no es válida: ${lastError}.
+Respuesta anterior:
+${raw.slice(0, 4000)}
+
+Devuelve únicamente el objeto JSON corregido, con este esquema:
+${STRUCTURED_SCHEMA}
+${answerIn(language)}`;
+    }
+
+    return { success: false, error: `Malformed structured summary: ${lastError}` };
+};
+
+/**
+ * Generates a summary of the meeting chat with the configured provider
+ * Transcripts above SUMMARY_CHUNK_TOKENS are split into chunks that are
+ * summarized one by one; the partial summaries are merged in batches until
+ * they fit in the final prompt. In structured mode (SUMMARY_FORMAT=structured)
+ * the final pass returns validated JSON and `summary` is its text rendering.
  * 
  * @param {ChatMessage[]} messages - Array of chat messages
- * @returns {Promise<string>} The generated summary
+ * @param {LanguageCode} [language] - Language to write the summary in
+ * @param {SummaryProgressListener} [onProgress] - Called after each completed step
+ * @returns {Promise<SummaryResult>} The generated summary, or the reason it failed
  */
-export const generateMeetingSummary = async (messages: ChatMessage[]): Promise<string> => {
+export const generateMeetingSummary = async (
+    messages: ChatMessage[],
+    language?: LanguageCode,
+    onProgress?: SummaryProgressListener
+): Promise<SummaryResult> => {
+    if (!messages || messages.length === 0) {
+        return { success: true, summary: getLanguageTexts(language).noMessages };
+    }
+
     try {
-        if (!process.env.GROQ_API_KEY) {
-            console.error("GROQ_API_KEY is missing in environment variables");
-            return "Error de configuración: No se encontró la API Key de Groq.";
+        const chunks = chunkByTokens(messages, SUMMARY_CHUNK_TOKENS, estimateMessageTokens);
+        let partials: string[] = [];
+        let completed = 0;
+        // One step per chunk plus the final pass; grows if partials need extra merging
+        let total = chunks.length > 1 ? chunks.length + 1 : 1;
+        const report = (stage: SummaryProgress["stage"]) => onProgress?.({ stage, completed, total });
+
+        report(chunks.length > 1 ? "map" : "reduce");
+
+        // Map: summarize each chunk on its own
+        if (chunks.length > 1) {
+            console.log(`🧩 Summarizing transcript in ${chunks.length} chunks`);
+
+            for (let i = 0; i < chunks.length; i++) {
+                partials.push(await summarizeChunk(chunks[i], i, chunks.length, language));
+                completed++;
+                report("map");
+            }
         }
 
-        if (!messages || messages.length === 0) {
-            return "No hubo mensajes en esta reunión.";
+        // Reduce: merge partials in batches until they fit in one prompt
+        while (partials.length > 1 && estimateTokens(partials.join("\n\n")) > SUMMARY_CHUNK_TOKENS) {
+            const batches = chunkByTokens(partials, SUMMARY_CHUNK_TOKENS, estimateTokens);
+
+            if (batches.length === partials.length) {
+                // Every partial is too large to pair up: merging cannot shrink them further
+                break;
+            }
+
+            total += batches.length;
+            const merged: string[] = [];
+            for (const batch of batches) {
+                merged.push(batch.length > 1 ? await mergeSummaries(batch, PARTIAL_SUMMARY_MAX_TOKENS, language) : batch[0]);
+                completed++;
+                report("reduce");
+            }
+            partials = merged;
         }
 
-        // Format messages for the prompt
-        const chatTranscript = messages
-            .map(msg => {
-                const time = msg.timestamp instanceof Date 
-                    ? msg.timestamp.toLocaleString() 
-                    : (msg.timestamp as any).toDate().toLocaleString();
-                return `${msg.userName} (${time}): ${msg.text}`;
-            })
-            .join("\n");
-
-        const prompt = `Actúa como un asistente virtual experto en resumir reuniones.
+        const source = describeSource(partials, messages);
+        let result: SummaryResult;
+
+        if (SUMMARY_FORMAT === "structured") {
+            result = await generateStructuredSummary(messages, source, language);
+        } else if (partials.length > 0) {
+            result = { success: true, summary: await mergeSummaries(partials, SUMMARY_MAX_TOKENS, language) };
+        } else {
+            const prompt = `Actúa como un asistente virtual experto en resumir reuniones.
 A continuación se presenta la transcripción del chat de una reunión virtual.
 Por favor, genera un resumen conciso y estructurado de los puntos clave discutidos, 
 decisiones tomadas y tareas asignadas si las hay.
+${answerIn(language)}
 
-Transcripción del chat:
-${chatTranscript}
+${source}
 
 Resumen:`;
 
-        // Use Llama 3.1 model (fast and free)
-        const chatCompletion = await groq.chat.completions.create({
-            messages: [
-                {
-                    role: "user",
-                    content: prompt
-                }
-            ],
-            model: "llama-3.1-8b-instant",
-            temperature: 0.7,
-            max_tokens: 1024
-        });
-
-        const summary = chatCompletion.choices[0]?.message?.content || "No se pudo generar el resumen.";
-        return summary;
+            result = { success: true, summary: (await complete(prompt, false)).trim() };
+        }
+
+        completed++;
+        report("reduce");
+        return result;
     } catch (error: any) {
         console.error("Error generating meeting summary:", error);
-        return `No se pudo generar el resumen. Detalles del error: ${error.message || JSON.stringify(error)}`;
+        return { success: false, error: error?.message || String(error) };
+    }
+};
+
+/**
+ * Runs an assistant prompt over the most recent part of a transcript that
+ * fits in one prompt
+ * 
+ * @param {ChatMessage[]} messages - Messages ordered oldest to newest
+ * @param {Function} buildPrompt - Builds the prompt from the transcript text
+ * @returns {Promise<AssistantReply>} Assistant reply, or the reason it failed
+ */
+const runAssistantPrompt = async (
+    messages: ChatMessage[],
+    buildPrompt: (transcript: string) => string
+): Promise<AssistantReply> => {
+    try {
+        const recent = takeLastByTokens(messages, SUMMARY_CHUNK_TOKENS, estimateMessageTokens);
+        const text = await complete(buildPrompt(buildTranscript(recent)), false);
+        return { success: true, text: text.trim() };
+    } catch (error: any) {
+        console.error("Error running assistant prompt:", error);
+        return { success: false, error: error?.message || String(error) };
+    }
+};
+
+/**
+ * Writes a short catch-up of the latest messages for participants who joined late
+ * 
+ * @param {ChatMessage[]} messages - Messages of the period, oldest first
+ * @param {number} minutes - Length of the period, for the prompt
+ * @param {LanguageCode} [language] - Language to answer in
+ * @returns {Promise<AssistantReply>} Catch-up text, or the reason it failed
+ */
+export const generateCatchUp = async (
+    messages: ChatMessage[],
+    minutes: number,
+    language?: LanguageCode
+): Promise<AssistantReply> => {
+    if (messages.length === 0) {
+        return { success: true, text: getLanguageTexts(language).noRecentMessages(minutes) };
+    }
+
+    return runAssistantPrompt(messages, (transcript) => `Actúa como el asistente de una reunión virtual en curso.
+A continuación se presentan los mensajes del chat de los últimos ${minutes} minutos.
+Las respuestas aparecen sangradas con "↳" debajo del mensaje al que responden.
+Escribe un resumen breve para ponerse al día: temas tratados, decisiones y tareas pendientes.
+${answerIn(language)}
+
+Mensajes:
+${transcript}
+
+Resumen:`);
+};
+
+/**
+ * Answers a participant's question using the meeting transcript so far
+ * 
+ * @param {ChatMessage[]} messages - Meeting messages, oldest first
+ * @param {string} question - Question asked with /ask
+ * @param {LanguageCode} [language] - Language to answer in
+ * @returns {Promise<AssistantReply>} Answer, or the reason it failed
+ */
+export const answerQuestion = async (
+    messages: ChatMessage[],
+    question: string,
+    language?: LanguageCode
+): Promise<AssistantReply> => {
+    return runAssistantPrompt(messages, (transcript) => `Actúa como el asistente de una reunión virtual en curso.
+Responde la pregunta de un participante usando solo la transcripción del chat.
+Si la transcripción no contiene la respuesta, dilo claramente. Sé breve.
+${answerIn(language)}
+
+Transcripción del chat:
+${transcript}
+
+Pregunta: ${question}
+
+Respuesta:`);
+};
+
+/**
+ * Translates a chat message
+ * 
+ * @param {string} text - Message text
+ * @param {LanguageCode} language - Target language
+ * @returns {Promise<TranslationResult>} Translated text, or the reason it failed
+ */
+export const translateText = async (text: string, language: LanguageCode): Promise<TranslationResult> => {
+    const prompt = `Traduce el siguiente mensaje de un chat al ${getLanguageTexts(language).promptName}.
+Conserva tal cual las menciones (@Nombre), los enlaces y los emojis.
+Si ya está en ese idioma, devuélvelo sin cambios.
+Responde únicamente con la traducción, sin comillas ni explicaciones.
+
+Mensaje:
+${text}
+
+Traducción:`;
+
+    try {
+        const translated = await complete(prompt, false, Math.min(SUMMARY_MAX_TOKENS, estimateTokens(text) * 3 + 64));
+        return { success: true, text: translated.trim() };
+    } catch (error: any) {
+        console.error("Error translating message:", error);
+        return { success: false, error: error?.message || String(error) };
+    }
+};
+
+/**
+ * Asks the model whether a chat message is inappropriate for a meeting
+ * 
+ * @param {string} text - Message text
+ * @returns {Promise<ClassificationResult>} Verdict, or the reason it failed
+ */
+export const classifyMessage = async (text: string): Promise<ClassificationResult> => {
+    const prompt = `Eres el moderador del chat de una reunión virtual de trabajo.
+Indica si el siguiente mensaje es inapropiado: acoso, insultos, discurso de odio,
+contenido sexual, violencia, spam o estafas.
+Responde únicamente con un objeto JSON con estas claves:
+- "flagged": true si el mensaje es inapropiado, false si no
+- "category": "harassment", "hate", "sexual", "violence", "spam" u "other" si es inapropiado, null si no
+
+Mensaje:
+${text}`;
+
+    try {
+        const verdict = JSON.parse(await complete(prompt, true, 64));
+
+        if (typeof verdict?.flagged !== "boolean") {
+            return { success: false, error: "Malformed classification" };
+        }
+
+        return {
+            success: true,
+            flagged: verdict.flagged,
+            category: typeof verdict.category === "string" ? verdict.category : undefined,
+        };
+    } catch (error: any) {
+        console.error("Error classifying message:", error);
+        return { success: false, error: error?.message || String(error) };
     }
 };
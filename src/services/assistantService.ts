@@ -0,0 +1,167 @@
+/**
+ * Assistant Service
+ * 
+ * In-meeting AI assistant driven by slash commands in the chat:
+ * `/summarize [minutes]` posts a catch-up of the recent conversation and
+ * `/ask <question>` answers from the transcript so far. Replies are posted
+ * as ChatMessages with senderType "assistant", threaded under the command,
+ * in the meeting's language.
+ * Use is rate-limited per meeting and the host can turn the assistant off.
+ * 
+ * @module services/assistantService
+ */
+
+import { randomUUID } from "crypto";
+import dotenv from "dotenv";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { createRateLimiter } from "../utils/rateLimiter";
+import { isPublicMessage } from "../utils/messageVisibility";
+import { addMessage, getMeetingById } from "./meetingService";
+import { answerQuestion, generateCatchUp } from "./aiService";
+import type { ChatMessage, Meeting } from "../models/meeting";
+
+dotenv.config();
+
+/**
+ * Sender identity of assistant messages
+ */
+export const ASSISTANT_UID = "joinus-assistant";
+export const ASSISTANT_NAME = "JoinUs AI";
+
+/**
+ * Default and maximum period covered by /summarize, in minutes
+ */
+const DEFAULT_CATCH_UP_MINUTES = Number(process.env.ASSISTANT_SUMMARY_MINUTES) || 15;
+const MAX_CATCH_UP_MINUTES = 240;
+
+/**
+ * Assistant commands per meeting: bursts of ASSISTANT_MAX_REQUESTS, refilled
+ * over ASSISTANT_WINDOW_MS. Every command counts, whether or not the model answers.
+ */
+const assistantRequests = createRateLimiter({
+    capacity: Number(process.env.ASSISTANT_MAX_REQUESTS) || 5,
+    windowMs: Number(process.env.ASSISTANT_WINDOW_MS) || 60 * 1000,
+});
+
+/**
+ * A parsed assistant command
+ */
+export type AssistantCommand =
+    | { name: "summarize"; minutes: number }
+    | { name: "ask"; question: string };
+
+/**
+ * Parses a chat message as an assistant command
+ * Unknown slash commands are left alone and sent as normal text.
+ * 
+ * @param {string} text - Message text
+ * @returns {{command?: AssistantCommand, error?: string} | null} Command, usage error, or null if the text is not a command
+ */
+export const parseAssistantCommand = (
+    text: string
+): { command?: AssistantCommand; error?: string } | null => {
+    const match = text.trim().match(/^\/(summarize|ask)(?:\s+([\s\S]*))?$/i);
+
+    if (!match) {
+        return null;
+    }
+
+    const argument = (match[2] || "").trim();
+
+    if (match[1].toLowerCase() === "ask") {
+        return argument
+            ? { command: { name: "ask", question: argument } }
+            : { error: "Usage: /ask <question>" };
+    }
+
+    if (!argument) {
+        return { command: { name: "summarize", minutes: DEFAULT_CATCH_UP_MINUTES } };
+    }
+
+    const minutes = Number(argument);
+
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_CATCH_UP_MINUTES) {
+        return { error: `Usage: /summarize [minutes, 1-${MAX_CATCH_UP_MINUTES}]` };
+    }
+
+    return { command: { name: "summarize", minutes } };
+};
+
+/**
+ * Checks that a meeting may use the assistant and counts the request
+ * 
+ * @param {Meeting} meeting - Meeting the command was sent in
+ * @returns {{allowed: boolean, error?: string, retryAfterMs?: number}}
+ */
+export const reserveAssistantRequest = (
+    meeting: Meeting
+): { allowed: boolean; error?: string; retryAfterMs?: number } => {
+    if (meeting.assistantEnabled === false) {
+        return { allowed: false, error: "The assistant has been turned off by the host" };
+    }
+
+    const retryAfterMs = assistantRequests.consume(meeting.meetingId);
+
+    if (retryAfterMs > 0) {
+        return { allowed: false, error: "Too many assistant requests, try again later", retryAfterMs };
+    }
+
+    return { allowed: true };
+};
+
+/**
+ * Runs an assistant command and posts the reply in the meeting chat
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {AssistantCommand} command - Parsed command
+ * @param {ChatMessage} commandMessage - Chat message holding the command; the reply is threaded under it
+ * @returns {Promise<{success: boolean, message?: ChatMessage, error?: string}>} Result with the posted reply
+ */
+export const runAssistantCommand = async (
+    meetingId: string,
+    command: AssistantCommand,
+    commandMessage: ChatMessage
+): Promise<{ success: boolean; message?: ChatMessage; error?: string }> => {
+    const meeting = await getMeetingById(meetingId);
+
+    // The assistant only reads the public conversation between participants
+    const transcript = (await getMeetingRepository().getAllMessages(meetingId)).filter((message) =>
+        isPublicMessage(message) &&
+        !message.deleted &&
+        message.senderType !== "assistant" &&
+        message.id !== commandMessage.id
+    );
+
+    let reply;
+
+    if (command.name === "summarize") {
+        const since = commandMessage.timestamp.getTime() - command.minutes * 60 * 1000;
+        reply = await generateCatchUp(
+            transcript.filter((message) => message.timestamp.getTime() >= since),
+            command.minutes,
+            meeting?.language
+        );
+    } else {
+        reply = await answerQuestion(transcript, command.question, meeting?.language);
+    }
+
+    if (!reply.success) {
+        return { success: false, error: "The assistant could not answer, try again later" };
+    }
+
+    const message: ChatMessage = {
+        id: randomUUID(),
+        userId: ASSISTANT_UID,
+        userName: ASSISTANT_NAME,
+        text: reply.text!,
+        timestamp: new Date(),
+        replyToId: commandMessage.id,
+        mentions: [],
+        senderType: "assistant",
+    };
+
+    await addMessage(meetingId, message);
+
+    console.log(`🤖 Assistant answered /${command.name} in meeting ${meetingId}`);
+    return { success: true, message };
+};
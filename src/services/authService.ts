@@ -0,0 +1,125 @@
+/**
+ * Auth Service
+ * 
+ * Verifies caller identity tokens. The verifier is selected through the
+ * AUTH_DRIVER environment variable:
+ * - firebase: verifies Firebase ID tokens (default)
+ * - local: accepts "uid" or "uid:Display Name" tokens, for tests and offline development
+ * 
+ * @module services/authService
+ */
+
+import dotenv from "dotenv";
+import { getAuth } from "../utils/firebase";
+
+dotenv.config();
+
+/**
+ * Identity of an authenticated caller
+ * @interface AuthUser
+ */
+export interface AuthUser {
+    /** Verified user ID */
+    uid: string;
+    /** Display name from the token */
+    name: string;
+}
+
+/**
+ * Verifies identity tokens
+ * @interface TokenVerifier
+ */
+export interface TokenVerifier {
+    /** Resolves the caller identity, or rejects if the token is invalid */
+    verify(token: string): Promise<AuthUser>;
+}
+
+/**
+ * Supported auth drivers
+ */
+export type AuthDriver = "firebase" | "local";
+
+let verifier: TokenVerifier | null = null;
+
+/**
+ * Creates a verifier that checks Firebase ID tokens with Firebase Admin
+ * 
+ * @returns {TokenVerifier} Verifier instance
+ */
+export const createFirebaseTokenVerifier = (): TokenVerifier => ({
+    async verify(token: string): Promise<AuthUser> {
+        const decoded = await getAuth().verifyIdToken(token);
+        return {
+            uid: decoded.uid,
+            name: decoded.name || decoded.email || decoded.uid,
+        };
+    },
+});
+
+/**
+ * Creates a stub verifier that trusts tokens of the form "uid" or "uid:Display Name"
+ * Never use it in production.
+ * 
+ * @returns {TokenVerifier} Verifier instance
+ */
+export const createLocalTokenVerifier = (): TokenVerifier => ({
+    async verify(token: string): Promise<AuthUser> {
+        const [uid, ...rest] = token.split(":");
+        const name = rest.join(":").trim();
+
+        if (!uid || !uid.trim()) {
+            throw new Error("Invalid token");
+        }
+
+        return { uid: uid.trim(), name: name || uid.trim() };
+    },
+});
+
+/**
+ * Returns the configured token verifier, creating it on first use
+ * 
+ * @returns {TokenVerifier} Active verifier
+ * @throws {Error} If AUTH_DRIVER is unknown
+ */
+export const getTokenVerifier = (): TokenVerifier => {
+    if (!verifier) {
+        const driver = (process.env.AUTH_DRIVER || "firebase") as AuthDriver;
+
+        switch (driver) {
+            case "firebase":
+                verifier = createFirebaseTokenVerifier();
+                break;
+            case "local":
+                verifier = createLocalTokenVerifier();
+                console.warn("⚠️ Using local auth driver, tokens are not verified");
+                break;
+            default:
+                throw new Error(`Unknown auth driver: ${driver}`);
+        }
+    }
+    return verifier;
+};
+
+/**
+ * Replaces the active verifier (useful for tests)
+ * 
+ * @param {TokenVerifier} tokenVerifier - Verifier to use
+ */
+export const setTokenVerifier = (tokenVerifier: TokenVerifier): void => {
+    verifier = tokenVerifier;
+};
+
+/**
+ * Verifies a token with the active verifier
+ * 
+ * @param {string} token - Identity token
+ * @returns {Promise<AuthUser | null>} Caller identity, or null if invalid
+ */
+export const verifyToken = async (token: string): Promise<AuthUser | null> => {
+    try {
+        return await getTokenVerifier().verify(token);
+    } catch (error) {
+        console.error("Token verification failed:", (error as Error).message);
+        return null;
+    }
+};
@@ -0,0 +1,402 @@
+/**
+ * Content Moderation Service
+ *
+ * Checks chat messages before they are stored: a profanity word list, link
+ * allow and deny lists, personal data (emails and phone numbers) and an
+ * optional LLM classifier. Each check has its own action; a message gets the
+ * most severe action of the checks that flagged it. Flagged messages are
+ * recorded per meeting so the host can audit them and review held ones.
+ *
+ * @module services/contentModerationService
+ */
+
+import { randomUUID } from "crypto";
+import dotenv from "dotenv";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { getMeetingById, isHost } from "./meetingService";
+import { toDeletedMessage } from "./messageService";
+import { extractMentions } from "../utils/mentions";
+import { isPublicMessage } from "../utils/messageVisibility";
+import { classifyMessage } from "./aiService";
+import type {
+    ChatMessage,
+    ModerationAction,
+    ModerationCheck,
+    ModerationFlag,
+    ModerationRecord,
+    Participant,
+} from "../models/meeting";
+
+dotenv.config();
+
+/**
+ * Actions from least to most severe
+ */
+const ACTION_SEVERITY: ModerationAction[] = ["allow", "mask", "hold", "reject"];
+
+/**
+ * Text shown instead of a message the classifier asked to mask
+ */
+const MASKED_MESSAGE_TEXT = "[message hidden by moderation]";
+
+/**
+ * Reads the action of a check; "off" turns the check off
+ */
+const readAction = (name: string, fallback: ModerationAction | "off"): ModerationAction | "off" => {
+    const value = process.env[name];
+    return value === "off" || ACTION_SEVERITY.includes(value as ModerationAction)
+        ? (value as ModerationAction | "off")
+        : fallback;
+};
+
+/**
+ * Reads a comma-separated, case-insensitive list
+ */
+const readList = (name: string): string[] => {
+    return (process.env[name] || "").split(",").map((item) => item.trim().toLowerCase()).filter(Boolean);
+};
+
+/**
+ * Words masked or blocked by the profanity check; the check is off while empty
+ */
+const PROFANITY_WORDS = readList("MODERATION_PROFANITY_WORDS");
+const PROFANITY_ACTION = readAction("MODERATION_PROFANITY_ACTION", "mask");
+
+/**
+ * Link domains (subdomains included): with an allow list only those pass,
+ * and domains in the deny list never pass; the check is off while both are empty
+ */
+const LINK_ALLOWLIST = readList("MODERATION_LINK_ALLOW");
+const LINK_DENYLIST = readList("MODERATION_LINK_DENY");
+const LINK_ACTION = readAction("MODERATION_LINK_ACTION", "reject");
+
+/**
+ * Emails and phone numbers
+ */
+const PII_ACTION = readAction("MODERATION_PII_ACTION", "off");
+
+/**
+ * LLM classifier; a failed classification lets the message through
+ */
+const CLASSIFIER_ACTION = readAction("MODERATION_CLASSIFIER_ACTION", "off");
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+/**
+ * Escapes text for use in a regular expression
+ */
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const PROFANITY_PATTERN = PROFANITY_WORDS.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${PROFANITY_WORDS.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "giu")
+    : null;
+
+/**
+ * Result of running the checks on a message
+ * @interface ModerationOutcome
+ */
+export interface ModerationOutcome {
+    /** Most severe action of the flags; "allow" when nothing was flagged */
+    action: ModerationAction;
+    /** Text to store, with the parts flagged by masking checks replaced */
+    text: string;
+    flags: ModerationFlag[];
+}
+
+/**
+ * Checks whether a link's host is in a list of domains, subdomains included
+ */
+const isDomainListed = (host: string, domains: string[]): boolean => {
+    return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+};
+
+/**
+ * Finds the links whose domain is denied or missing from the allow list
+ */
+const findBlockedLinks = (text: string): string[] => {
+    return (text.match(LINK_PATTERN) || []).filter((link) => {
+        let host: string;
+
+        try {
+            host = new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`).hostname.toLowerCase();
+        } catch {
+            return true;
+        }
+
+        return isDomainListed(host, LINK_DENYLIST) ||
+            (LINK_ALLOWLIST.length > 0 && !isDomainListed(host, LINK_ALLOWLIST));
+    });
+};
+
+/**
+ * Finds emails and phone numbers (9 to 15 digits, so meeting codes are not
+ * matched, and not starting like a date)
+ */
+const findPersonalData = (text: string): string[] => {
+    const phones = (text.match(PHONE_PATTERN) || []).filter((match) => {
+        const digits = match.replace(/\D/g, "").length;
+        return digits >= 9 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(match);
+    });
+
+    return [...(text.match(EMAIL_PATTERN) || []), ...phones];
+};
+
+/**
+ * Runs the checks that match text against lists and patterns
+ */
+const runPatternChecks = (text: string): ModerationFlag[] => {
+    const checks: [ModerationCheck, ModerationAction | "off", () => string[]][] = [
+        ["profanity", PROFANITY_PATTERN ? PROFANITY_ACTION : "off", () => text.match(PROFANITY_PATTERN!) || []],
+        ["links", LINK_ALLOWLIST.length + LINK_DENYLIST.length > 0 ? LINK_ACTION : "off", () => findBlockedLinks(text)],
+        ["pii", PII_ACTION, () => findPersonalData(text)],
+    ];
+
+    return checks.flatMap(([check, action, find]) => {
+        if (action === "off") {
+            return [];
+        }
+
+        const matches = [...new Set(find())];
+        return matches.length > 0 ? [{ check, action, matches }] : [];
+    });
+};
+
+/**
+ * Runs every configured check on a message text
+ * The classifier is skipped when another check already rejects the message.
+ *
+ * @param {string} text - Message text as sent
+ * @returns {Promise<ModerationOutcome>} Action to apply and the text to store
+ */
+export const moderateText = async (text: string): Promise<ModerationOutcome> => {
+    const flags = runPatternChecks(text);
+
+    if (CLASSIFIER_ACTION !== "off" && !flags.some((flag) => flag.action === "reject")) {
+        const verdict = await classifyMessage(text);
+
+        if (verdict.flagged) {
+            flags.push({ check: "classifier", action: CLASSIFIER_ACTION, matches: [verdict.category || "other"] });
+        }
+    }
+
+    const action = flags.reduce<ModerationAction>(
+        (worst, flag) => ACTION_SEVERITY.indexOf(flag.action) > ACTION_SEVERITY.indexOf(worst) ? flag.action : worst,
+        "allow"
+    );
+
+    let masked = text;
+
+    for (const flag of flags.filter((f) => f.action === "mask")) {
+        masked = flag.check === "classifier"
+            ? MASKED_MESSAGE_TEXT
+            : flag.matches.reduce((result, match) => result.split(match).join("*".repeat(match.length)), masked);
+    }
+
+    return { action, text: masked, flags };
+};
+
+/**
+ * Records a flagged message for the host's audit
+ *
+ * @param {string} meetingId - Meeting ID
+ * @param {{uid: string, name: string}} sender - Who sent the message
+ * @param {string} text - Text as sent, before masking
+ * @param {ModerationOutcome} outcome - Result of the checks
+ * @param {ChatMessage} [message] - Stored message; omitted when it was rejected
+ * @returns {Promise<ModerationRecord>} Stored record
+ */
+export const recordModeration = async (
+    meetingId: string,
+    sender: { uid: string; name: string },
+    text: string,
+    outcome: ModerationOutcome,
+    message?: ChatMessage
+): Promise<ModerationRecord> => {
+    const record: ModerationRecord = {
+        id: randomUUID(),
+        meetingId,
+        messageId: message?.id,
+        userId: sender.uid,
+        userName: sender.name,
+        text,
+        action: outcome.action,
+        flags: outcome.flags,
+        createdAt: message?.timestamp || new Date(),
+    };
+
+    await getMeetingRepository().addModerationRecord(meetingId, record);
+
+    console.log(`🚩 Message from ${sender.name} in ${meetingId} flagged (${outcome.action}): ${outcome.flags.map((f) => f.check).join(", ")}`);
+    return record;
+};
+
+/**
+ * Lists the flagged messages of a meeting (by host)
+ *
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID asking (must be the host)
+ * @returns {Promise<{success: boolean, records?: ModerationRecord[], error?: string}>}
+ */
+export const getModerationRecords = async (
+    meetingId: string,
+    uid: string
+): Promise<{ success: boolean; records?: ModerationRecord[]; error?: string }> => {
+    const meeting = await getMeetingById(meetingId);
+
+    if (!meeting) {
+        return { success: false, error: "Meeting not found" };
+    }
+
+    if (!isHost(meeting, uid)) {
+        return { success: false, error: "Only the host can do this" };
+    }
+
+    return { success: true, records: await getMeetingRepository().getModerationRecords(meetingId) };
+};
+
+/**
+ * Returns a held message as it stands after the host's review
+ * 
+ * @param {ChatMessage} message - Held message
+ * @param {boolean} approve - Whether the host released it
+ * @param {string} uid - User ID of the host
+ * @param {Date} reviewedAt - Time of the review
+ * @param {Participant[]} participants - Current participants, for the mentions of an approved edit
+ * @returns {ChatMessage} Released, restored or deleted message
+ */
+const reviewedVersion = (
+    message: ChatMessage,
+    approve: boolean,
+    uid: string,
+    reviewedAt: Date,
+    participants: Participant[]
+): ChatMessage => {
+    const { heldForReview, ...released } = message;
+    const history = message.editHistory || [];
+
+    if (approve) {
+        // A held edit kept the mentions of the text shown before it
+        if (history.length > 0 && isPublicMessage(released)) {
+            released.mentions = extractMentions(message.text, participants);
+        }
+        return released;
+    }
+
+    // A held edit: the others saw the previous text, which comes back
+    if (history.length > 0) {
+        const restored: ChatMessage = {
+            ...released,
+            text: history[history.length - 1].text,
+            editHistory: history.slice(0, -1),
+            translations: {},
+        };
+
+        // The restored text dates from the edit before the rejected one, if any
+        if (history.length > 1) {
+            restored.editedAt = history[history.length - 2].editedAt;
+        } else {
+            delete restored.editedAt;
+        }
+
+        return restored;
+    }
+
+    return toDeletedMessage(message, uid, reviewedAt);
+};
+
+/**
+ * Approves or rejects a message held for review (by host)
+ * Approved messages become visible to everyone. A rejected edit is dropped
+ * and the message gets back its previous text; a message held when it was
+ * first sent is deleted and stays visible to its sender only.
+ *
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID of the host
+ * @param {string} recordId - Audit record of the held message
+ * @param {boolean} approve - Whether to release the message
+ * @returns {Promise<{success: boolean, record?: ModerationRecord, message?: ChatMessage, wasShown?: boolean, alreadyMentioned?: string[], error?: string}>}
+ *   wasShown tells whether the others saw the message before the held edit, and
+ *   alreadyMentioned who they were told about then
+ */
+export const reviewHeldMessage = async (
+    meetingId: string,
+    uid: string,
+    recordId: string,
+    approve: boolean
+): Promise<{
+    success: boolean;
+    record?: ModerationRecord;
+    message?: ChatMessage;
+    wasShown?: boolean;
+    alreadyMentioned?: string[];
+    error?: string;
+}> => {
+    try {
+        const meeting = await getMeetingById(meetingId);
+
+        if (!meeting) {
+            return { success: false, error: "Meeting not found" };
+        }
+
+        if (!isHost(meeting, uid)) {
+            return { success: false, error: "Only the host can do this" };
+        }
+
+        if (typeof recordId !== "string" || !recordId) {
+            return { success: false, error: "Flagged message not found" };
+        }
+
+        const repo = getMeetingRepository();
+        let reviewable = false;
+
+        // Only the first review of a held message counts
+        const record = await repo.updateModerationRecord(meetingId, recordId, (current) => {
+            reviewable = current.action === "hold" && !current.review && !!current.messageId;
+
+            return reviewable
+                ? { ...current, review: approve ? "approved" : "rejected", reviewedBy: uid, reviewedAt: new Date() }
+                : current;
+        });
+
+        if (!record) {
+            return { success: false, error: "Flagged message not found" };
+        }
+
+        if (!reviewable) {
+            return { success: false, error: "This message is not waiting for review" };
+        }
+
+        let wasShown = false;
+        let alreadyMentioned: string[] = [];
+        let message: ChatMessage | null = null;
+
+        try {
+            message = await repo.updateMessage(meetingId, record.messageId!, (current) => {
+                // Only a held edit has history; the message was shown before it
+                wasShown = (current.editHistory || []).length > 0;
+                alreadyMentioned = wasShown ? current.mentions || [] : [];
+                return reviewedVersion(current, approve, uid, record.reviewedAt!, meeting.participants);
+            });
+        } finally {
+            // Without its message change the review did not happen, so the host can try again
+            if (!message) {
+                await repo.updateModerationRecord(meetingId, recordId, (current) => {
+                    const { review, reviewedBy, reviewedAt, ...pending } = current;
+                    return reviewedAt?.getTime() === record.reviewedAt!.getTime() ? pending : current;
+                });
+            }
+        }
+
+        if (!message) {
+            return { success: false, error: "Message not found" };
+        }
+
+        console.log(`🚩 Held message ${message.id} in ${meetingId} ${record.review} by host ${uid}`);
+        return { success: true, record, message, wasShown, alreadyMentioned };
+    } catch (error) {
+        console.error("Error reviewing held message:", error);
+        return { success: false, error: "Failed to review message" };
+    }
+};
@@ -0,0 +1,310 @@
+/**
+ * Export Service
+ *
+ * Renders a meeting's chat history, attendees and stored summary as a
+ * downloadable Markdown, plain text, JSON or HTML document. Times are shown
+ * in the time zone the user asks for; JSON also keeps them as UTC ISO strings.
+ *
+ * @module services/exportService
+ */
+
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { isMessageVisibleTo } from "../utils/messageVisibility";
+import type { Attendee, ChatMessage, Meeting } from "../models/meeting";
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = "md" | "txt" | "json" | "html";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    md: "text/markdown; charset=utf-8",
+    txt: "text/plain; charset=utf-8",
+    json: "application/json; charset=utf-8",
+    html: "text/html; charset=utf-8",
+};
+
+/**
+ * A rendered export, ready to be sent as a file
+ * @interface MeetingExport
+ */
+export interface MeetingExport {
+    contentType: string;
+    filename: string;
+    body: string;
+}
+
+/**
+ * Everything an export is rendered from
+ */
+interface ExportData {
+    meeting: Meeting;
+    attendees: Attendee[];
+    messages: ChatMessage[];
+    timeZone: string;
+}
+
+/**
+ * Checks whether a value is a supported export format
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the format is supported
+ */
+export const isExportFormat = (value: unknown): value is ExportFormat => {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(CONTENT_TYPES, value);
+};
+
+/**
+ * Checks whether a value is an IANA time zone name known to the runtime
+ *
+ * @param {unknown} value - Value to check, e.g. "Europe/Madrid"
+ * @returns {boolean} True if the time zone can be used
+ */
+export const isValidTimeZone = (value: unknown): value is string => {
+    if (typeof value !== "string" || !value) {
+        return false;
+    }
+
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: value });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Formats a date in a time zone as "YYYY-MM-DD HH:mm:ss GMT+h"
+ *
+ * @param {Date} date - Date to format
+ * @param {string} timeZone - IANA time zone
+ * @returns {string} Local date and time with its UTC offset
+ */
+const formatTime = (date: Date, timeZone: string): string => {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+            hourCycle: "h23",
+            timeZoneName: "shortOffset",
+        })
+            .formatToParts(date)
+            .map((part) => [part.type, part.value])
+    );
+
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second} ${parts.timeZoneName}`;
+};
+
+/**
+ * Describes a message's sender, recipient and thread for one transcript line
+ */
+const describeMessage = (message: ChatMessage, byId: Map<string, ChatMessage>): string => {
+    const details: string[] = [];
+
+    if (message.senderType === "assistant") {
+        details.push("assistant");
+    }
+    if (message.recipientName) {
+        details.push(`private to ${message.recipientName}`);
+    }
+    if (message.replyToId) {
+        details.push(`reply to ${byId.get(message.replyToId)?.userName || "a message"}`);
+    }
+    if (message.editedAt && !message.deleted) {
+        details.push("edited");
+    }
+
+    return details.length > 0 ? ` (${details.join(", ")})` : "";
+};
+
+/**
+ * Text of a message as exported
+ */
+const messageText = (message: ChatMessage): string => {
+    return message.deleted ? "[message deleted]" : message.text;
+};
+
+/**
+ * Renders the export as Markdown or plain text
+ */
+const renderText = ({ meeting, attendees, messages, timeZone }: ExportData, markdown: boolean): string => {
+    const byId = new Map(messages.map((message) => [message.id, message]));
+    const heading = (text: string) => markdown ? `## ${text}` : `${text}\n${"-".repeat(text.length)}`;
+    const lines: string[] = [
+        markdown ? `# Meeting ${meeting.meetingId}` : `Meeting ${meeting.meetingId}\n${"=".repeat(8 + meeting.meetingId.length)}`,
+        "",
+        `Created: ${formatTime(meeting.createdAt, timeZone)}`,
+        `Time zone: ${timeZone}`,
+        `Language: ${meeting.language}`,
+        "",
+        heading("Participants"),
+        "",
+        ...attendees.map((a) =>
+            `- ${a.name}${a.uid === meeting.hostId ? " (host)" : ""}, joined ${formatTime(a.joinedAt, timeZone)}`
+        ),
+        "",
+        heading("Summary"),
+        "",
+        meeting.summary || "No summary available.",
+        "",
+        heading("Chat"),
+        "",
+    ];
+
+    for (const message of messages) {
+        const time = formatTime(message.timestamp, timeZone);
+        const sender = markdown ? `**${message.userName}**` : message.userName;
+        lines.push(`[${time}] ${sender}${describeMessage(message, byId)}: ${messageText(message)}`);
+        if (markdown) {
+            lines.push("");
+        }
+    }
+
+    return lines.join("\n").trimEnd() + "\n";
+};
+
+/**
+ * Renders the export as JSON, with UTC timestamps and their local rendering
+ */
+const renderJson = ({ meeting, attendees, messages, timeZone }: ExportData): string => {
+    return JSON.stringify({
+        meetingId: meeting.meetingId,
+        createdAt: meeting.createdAt.toISOString(),
+        hostId: meeting.hostId,
+        language: meeting.language,
+        timeZone,
+        participants: attendees.map((a) => ({
+            uid: a.uid,
+            name: a.name,
+            isHost: a.uid === meeting.hostId,
+            joinedAt: a.joinedAt.toISOString(),
+            joinedAtLocal: formatTime(a.joinedAt, timeZone),
+        })),
+        summary: meeting.summary || null,
+        structuredSummary: meeting.structuredSummary || null,
+        messages: messages.map((message) => ({
+            id: message.id,
+            userId: message.userId,
+            userName: message.userName,
+            senderType: message.senderType || "user",
+            text: messageText(message),
+            timestamp: message.timestamp.toISOString(),
+            localTime: formatTime(message.timestamp, timeZone),
+            replyToId: message.replyToId || null,
+            recipientId: message.recipientId || null,
+            editedAt: message.editedAt ? message.editedAt.toISOString() : null,
+            deleted: !!message.deleted,
+            reactions: message.reactions || {},
+        })),
+    }, null, 2);
+};
+
+/**
+ * Escapes text for HTML content and attributes
+ */
+const escapeHtml = (text: string): string => {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+};
+
+/**
+ * Renders the export as a standalone HTML page
+ */
+const renderHtml = ({ meeting, attendees, messages, timeZone }: ExportData): string => {
+    const byId = new Map(messages.map((message) => [message.id, message]));
+    const title = escapeHtml(`Meeting ${meeting.meetingId}`);
+
+    const participants = attendees.map((a) =>
+        `<li>${escapeHtml(a.name)}${a.uid === meeting.hostId ? " (host)" : ""}, joined ` +
+        `<time datetime="${a.joinedAt.toISOString()}">${escapeHtml(formatTime(a.joinedAt, timeZone))}</time></li>`
+    );
+
+    const chat = messages.map((message) =>
+        `<li${message.deleted ? ' class="deleted"' : ""}>` +
+        `<time datetime="${message.timestamp.toISOString()}">${escapeHtml(formatTime(message.timestamp, timeZone))}</time> ` +
+        `<strong>${escapeHtml(message.userName)}</strong>${escapeHtml(describeMessage(message, byId))}: ` +
+        `<span class="text">${escapeHtml(messageText(message))}</span></li>`
+    );
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(meeting.language)}">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: sans-serif; max-width: 48rem; margin: 2rem auto; line-height: 1.5; }
+ul.chat { list-style: none; padding: 0; }
+time { color: #666; font-size: 0.9em; }
+.text, .summary { white-space: pre-wrap; }
+.deleted .text { color: #999; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p>Created: <time datetime="${meeting.createdAt.toISOString()}">${escapeHtml(formatTime(meeting.createdAt, timeZone))}</time><br>
+Time zone: ${escapeHtml(timeZone)}</p>
+<h2>Participants</h2>
+<ul>
+${participants.join("\n")}
+</ul>
+<h2>Summary</h2>
+<div class="summary">${escapeHtml(meeting.summary || "No summary available.")}</div>
+<h2>Chat</h2>
+<ul class="chat">
+${chat.join("\n")}
+</ul>
+</body>
+</html>
+`;
+};
+
+/**
+ * Renders a meeting export for a user
+ * Only messages the user can see are included, so private messages appear
+ * in the exports of their sender and recipient only.
+ *
+ * @param {Meeting} meeting - Meeting to export
+ * @param {string} viewerUid - User requesting the export
+ * @param {ExportFormat} format - Output format
+ * @param {string} timeZone - IANA time zone for displayed times
+ * @returns {Promise<MeetingExport>} Rendered file
+ */
+export const exportMeeting = async (
+    meeting: Meeting,
+    viewerUid: string,
+    format: ExportFormat,
+    timeZone: string
+): Promise<MeetingExport> => {
+    const messages = (await getMeetingRepository().getAllMessages(meeting.meetingId))
+        .filter((message) => isMessageVisibleTo(message, viewerUid));
+
+    // Participants still in the meeting are attendees too; older meetings may only have these
+    const attendees = [...meeting.attendees];
+    for (const participant of meeting.participants) {
+        if (!attendees.some((a) => a.uid === participant.uid)) {
+            attendees.push({ uid: participant.uid, name: participant.name, joinedAt: participant.joinedAt });
+        }
+    }
+
+    const data: ExportData = { meeting, attendees, messages, timeZone };
+    const body = format === "json"
+        ? renderJson(data)
+        : format === "html"
+            ? renderHtml(data)
+            : renderText(data, format === "md");
+
+    return {
+        contentType: CONTENT_TYPES[format],
+        filename: `meeting-${meeting.meetingId}.${format}`,
+        body,
+    };
+};
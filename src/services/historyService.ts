@@ -0,0 +1,218 @@
+/**
+ * History Service
+ *
+ * Per-user meeting history and search. Every meeting a user creates or joins
+ * is indexed under their user record, so it can be found again after it ends.
+ * Search scans the chat and summary of the caller's most recent meetings.
+ *
+ * @module services/historyService
+ */
+
+import dotenv from "dotenv";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { isMessageVisibleTo } from "../utils/messageVisibility";
+import type {
+    Meeting,
+    MeetingHistoryPage,
+    MeetingSearchHit,
+} from "../models/meeting";
+
+dotenv.config();
+
+/**
+ * Default and maximum number of meetings per history page
+ */
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Number of most recent meetings a search looks into
+ */
+const SEARCH_MAX_MEETINGS = Number(process.env.SEARCH_MAX_MEETINGS) || 50;
+
+/**
+ * Default and maximum number of search results
+ */
+const DEFAULT_SEARCH_RESULTS = 20;
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Characters of context kept on each side of a match
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Lowercases text and strips accents, so "Decisión" matches "decision"
+ */
+const fold = (text: string): string =>
+    text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+/**
+ * Indexes a meeting in a user's history
+ * Failures are only logged so they never block creating or joining a meeting.
+ *
+ * @param {Meeting} meeting - Meeting created or joined
+ * @param {string} uid - User ID
+ * @param {boolean} joined - Whether the user joined now (false when they only created it)
+ * @returns {Promise<void>}
+ */
+export const recordParticipation = async (
+    meeting: Meeting,
+    uid: string,
+    joined: boolean
+): Promise<void> => {
+    try {
+        const now = new Date();
+
+        await getMeetingRepository().updateParticipation(uid, meeting.meetingId, (current) => ({
+            uid,
+            meetingId: meeting.meetingId,
+            meetingCreatedAt: meeting.createdAt,
+            isCreator: meeting.createdBy === uid,
+            joinedAt: current?.joinedAt ?? (joined ? now : undefined),
+            lastJoinedAt: joined ? now : current?.lastJoinedAt,
+        }));
+    } catch (error) {
+        console.error("Error indexing meeting participation:", error);
+    }
+};
+
+/**
+ * Lists the meetings a user created or joined, newest first
+ *
+ * @param {string} uid - User ID
+ * @param {{from?: Date, to?: Date, before?: string, limit?: number}} options - Creation date range, cursor and page size
+ * @returns {Promise<MeetingHistoryPage>} Page of meetings and the cursor of the next one
+ */
+export const getUserMeetings = async (
+    uid: string,
+    options: { from?: Date; to?: Date; before?: string; limit?: number }
+): Promise<MeetingHistoryPage> => {
+    const repo = getMeetingRepository();
+    const pageSize = Math.min(
+        Math.max(1, Math.floor(options.limit || DEFAULT_HISTORY_PAGE_SIZE)),
+        MAX_HISTORY_PAGE_SIZE
+    );
+    const entries = await repo.findParticipations(uid, {
+        from: options.from,
+        to: options.to,
+        before: options.before,
+        limit: pageSize,
+    });
+    const meetings = await Promise.all(entries.map((entry) => repo.findById(entry.meetingId)));
+
+    return {
+        meetings: entries.flatMap((entry, i) => {
+            const meeting = meetings[i];
+
+            return meeting ? [{
+                meetingId: meeting.meetingId,
+                createdAt: meeting.createdAt,
+                createdBy: meeting.createdBy,
+                hostId: meeting.hostId,
+                isActive: meeting.isActive,
+                isCreator: entry.isCreator,
+                seriesId: meeting.seriesId || null,
+                joinedAt: entry.joinedAt || null,
+                lastJoinedAt: entry.lastJoinedAt || null,
+                attendeeCount: meeting.attendees.length,
+                summaryStatus: meeting.summaryStatus || null,
+                summary: meeting.summary || null,
+            }] : [];
+        }),
+        nextCursor: entries.length === pageSize ? entries[entries.length - 1].meetingId : null,
+    };
+};
+
+/**
+ * Cuts the text around the first query term
+ *
+ * @param {string} text - Matching text
+ * @param {string} term - Folded query term found in it
+ * @returns {string} Snippet, with "…" where text was left out
+ */
+const makeSnippet = (text: string, term: string): string => {
+    const source = text.normalize("NFC");
+    const index = Math.max(0, fold(source).indexOf(term));
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(source.length, index + term.length + SNIPPET_CONTEXT);
+
+    return `${start > 0 ? "…" : ""}${source.slice(start, end).trim()}${end < source.length ? "…" : ""}`;
+};
+
+/**
+ * Searches message text and summaries of the meetings a user took part in
+ * Every word of the query must appear (case and accent insensitive). Only the
+ * SEARCH_MAX_MEETINGS most recent meetings are searched, newest first, and
+ * private messages are only matched for their sender and recipient.
+ *
+ * @param {string} uid - User ID searching
+ * @param {string} query - Search text
+ * @param {number} [limit] - Maximum number of results
+ * @returns {Promise<{success: boolean, results?: MeetingSearchHit[], error?: string}>}
+ */
+export const searchMeetings = async (
+    uid: string,
+    query: string,
+    limit: number = DEFAULT_SEARCH_RESULTS
+): Promise<{ success: boolean; results?: MeetingSearchHit[]; error?: string }> => {
+    const terms = fold(typeof query === "string" ? query : "").split(/\s+/).filter(Boolean);
+
+    if (terms.length === 0 || terms.join("").length < 2) {
+        return { success: false, error: "Search text must be at least 2 characters" };
+    }
+
+    const maxResults = Math.min(Math.max(1, Math.floor(limit) || DEFAULT_SEARCH_RESULTS), MAX_SEARCH_RESULTS);
+    const matches = (text: string): boolean => {
+        const folded = fold(text);
+        return terms.every((term) => folded.includes(term));
+    };
+
+    const repo = getMeetingRepository();
+    const entries = await repo.findParticipations(uid, { limit: SEARCH_MAX_MEETINGS });
+    const results: MeetingSearchHit[] = [];
+
+    // One meeting at a time, stopping as soon as there are enough results
+    for (const entry of entries) {
+        const meeting = await repo.findById(entry.meetingId);
+
+        if (!meeting) {
+            continue;
+        }
+
+        if (meeting.summary && matches(meeting.summary)) {
+            results.push({
+                meetingId: meeting.meetingId,
+                meetingCreatedAt: meeting.createdAt,
+                source: "summary",
+                snippet: makeSnippet(meeting.summary, terms[0]),
+            });
+        }
+
+        const messages = await repo.getAllMessages(meeting.meetingId);
+
+        for (const message of messages) {
+            if (results.length >= maxResults) {
+                break;
+            }
+
+            if (!message.deleted && isMessageVisibleTo(message, uid) && matches(message.text)) {
+                results.push({
+                    meetingId: meeting.meetingId,
+                    meetingCreatedAt: meeting.createdAt,
+                    source: "message",
+                    messageId: message.id,
+                    userName: message.userName,
+                    timestamp: message.timestamp,
+                    snippet: makeSnippet(message.text, terms[0]),
+                });
+            }
+        }
+
+        if (results.length >= maxResults) {
+            break;
+        }
+    }
+
+    return { success: true, results: results.slice(0, maxResults) };
+};
@@ -0,0 +1,95 @@
+/**
+ * Meeting Scheduler
+ *
+ * Background check that ends meetings once their scheduled time is over or
+ * after they sat idle, through the same flow as a host ending the meeting,
+ * so their summary is queued as usual. Every server instance runs it; the
+ * meeting lock makes sure each meeting is only ended once.
+ *
+ * @module services/meetingScheduler
+ */
+
+import dotenv from "dotenv";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { expireMeeting } from "./meetingService";
+import type { MeetingEndReason } from "../models/meeting";
+
+dotenv.config();
+
+/**
+ * Interval between checks for meetings to end
+ */
+const SCHEDULER_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 60 * 1000;
+
+/**
+ * Minutes without connected participants, joins or messages after which a
+ * meeting is ended (0 disables)
+ */
+const MEETING_IDLE_MINUTES = Number(process.env.MEETING_IDLE_MINUTES ?? 120);
+
+/**
+ * Number of meetings ended per check
+ */
+const MEETINGS_PER_CHECK = 20;
+
+const expiredListeners: ((meetingId: string, reason: MeetingEndReason) => void)[] = [];
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checking = false;
+
+/**
+ * Registers a listener for meetings ended by the scheduler, e.g. to notify their room
+ *
+ * @param {Function} listener - Called with the meeting ID and why it ended
+ */
+export const onMeetingExpired = (
+    listener: (meetingId: string, reason: MeetingEndReason) => void
+): void => {
+    expiredListeners.push(listener);
+};
+
+/**
+ * Ends the meetings that are over or idle
+ * Calls made while a previous check is still running are skipped.
+ *
+ * @returns {Promise<void>}
+ */
+const checkMeetings = async (): Promise<void> => {
+    if (checking) {
+        return;
+    }
+
+    checking = true;
+    try {
+        const now = new Date();
+        const idleBefore = MEETING_IDLE_MINUTES > 0
+            ? new Date(now.getTime() - MEETING_IDLE_MINUTES * 60 * 1000)
+            : null;
+        const meetings = await getMeetingRepository().findExpiredMeetings(now, idleBefore, MEETINGS_PER_CHECK);
+
+        for (const { meetingId } of meetings) {
+            const reason = await expireMeeting(meetingId, now, idleBefore);
+
+            if (reason) {
+                expiredListeners.forEach((listener) => listener(meetingId, reason));
+            }
+        }
+    } catch (error) {
+        console.error("Error checking scheduled meetings:", error);
+    } finally {
+        checking = false;
+    }
+};
+
+/**
+ * Starts the scheduler of this instance
+ */
+export const startMeetingScheduler = (): void => {
+    if (checkTimer) {
+        return;
+    }
+
+    checkTimer = setInterval(() => checkMeetings(), SCHEDULER_INTERVAL_MS);
+    checkMeetings();
+    console.log(`⏰ Meeting scheduler started (every ${SCHEDULER_INTERVAL_MS / 1000}s)`);
+};
@@ -1,36 +1,77 @@
 /**
  * Meeting Service
  * 
- * Business logic for managing meetings with Firestore persistence.
+ * Business logic for managing meetings. Persistence goes through the
+ * configured MeetingRepository (Firestore or local storage); active meetings
+ * are cached in the MeetingStateStore, which may be shared by several
+ * server instances. Changes to a meeting go through mutateMeeting so they
+ * are applied under the meeting's lock.
  * Handles meeting creation, joining, leaving, and message management.
  * 
  * @module services/meetingService
  */
 
-import { db, COLLECTIONS } from "../utils/firebase";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { getMeetingStateStore } from "../state/meetingStateStore";
 import { generateMeetingId, isValidMeetingId } from "../utils/validation";
-import { generateMeetingSummary } from "./aiService";
+import { hashPasscode, verifyPasscode } from "../utils/passcode";
+import { createInviteToken, verifyInviteToken } from "../utils/inviteToken";
+import { isMessageVisibleTo } from "../utils/messageVisibility";
+import { isLanguageCode, LanguageCode, LEGACY_LANGUAGE } from "../utils/language";
+import { enqueueSummary } from "./summaryQueue";
+import { recordParticipation } from "./historyService";
 import type {
     Meeting,
     MeetingCreateData,
+    MeetingEndReason,
     JoinMeetingData,
     Participant,
+    PendingParticipant,
     ChatMessage,
+    MessagePage,
+    SummaryJob,
 } from "../models/meeting";
 
 /**
- * In-memory cache of active meetings for fast access
- * Key: meetingId, Value: Meeting object
+ * Maximum number of participants allowed per meeting
  */
-const activeMeetings = new Map<string, Meeting>();
+const MAX_PARTICIPANTS = 10;
 
 /**
- * Maximum number of participants allowed per meeting
+ * Number of recent messages sent to a user when joining
  */
-const MAX_PARTICIPANTS = 10;
+const RECENT_MESSAGES_LIMIT = Number(process.env.RECENT_MESSAGES_LIMIT) || 50;
 
 /**
- * Creates a new meeting and stores it in Firestore
+ * Language of meetings created without one
+ */
+const DEFAULT_MEETING_LANGUAGE: LanguageCode = isLanguageCode(process.env.DEFAULT_MEETING_LANGUAGE)
+    ? process.env.DEFAULT_MEETING_LANGUAGE
+    : LEGACY_LANGUAGE;
+
+/**
+ * Maximum number of messages returned by one history page
+ */
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Minutes before a scheduled start when joins are accepted
+ */
+const EARLY_JOIN_MINUTES = Number(process.env.SCHEDULE_EARLY_JOIN_MINUTES) || 10;
+
+/**
+ * Minimum time between two writes of a meeting's last activity
+ */
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Default and maximum lifetime of invite tokens, in minutes
+ */
+const DEFAULT_INVITE_TTL_MINUTES = 24 * 60;
+const MAX_INVITE_TTL_MINUTES = 7 * 24 * 60;
+
+/**
+ * Creates a new meeting and stores it in the repository
  * 
  * @param {MeetingCreateData} data - Meeting creation data
  * @returns {Promise<Meeting>} Created meeting object
@@ -43,31 +84,68 @@ export const createMeeting = async (
         // Generate unique meeting ID
         let meetingId = generateMeetingId();
 
-        // Ensure uniqueness (check Firestore)
+        // Ensure uniqueness (check storage)
         let exists = await getMeetingById(meetingId);
         while (exists) {
             meetingId = generateMeetingId();
             exists = await getMeetingById(meetingId);
         }
 
+        const now = new Date();
+        const start = data.scheduledStart || now;
+
         const meeting: Meeting = {
             meetingId,
             createdBy: data.createdBy,
-            createdAt: new Date(),
+            hostId: data.createdBy,
+            createdAt: now,
             participants: [],
-            messages: [],
             isActive: true,
             maxParticipants: MAX_PARTICIPANTS,
+            isLocked: false,
+            bannedUids: [],
+            mutedUids: [],
+            lobbyEnabled: data.lobbyEnabled ?? false,
+            pendingParticipants: [],
+            readPositions: {},
+            assistantEnabled: true,
+            language: data.language || DEFAULT_MEETING_LANGUAGE,
+            attendees: [],
+            lastActivityAt: start,
         };
 
-        // Save to Firestore
-        await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).set({
-            ...meeting,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+        if (data.title) {
+            meeting.title = data.title.trim();
+        }
+
+        if (data.scheduledStart) {
+            meeting.scheduledStart = data.scheduledStart;
+        }
+
+        if (data.durationMinutes) {
+            meeting.durationMinutes = data.durationMinutes;
+            meeting.scheduledEnd = new Date(start.getTime() + data.durationMinutes * 60 * 1000);
+        }
+
+        if (data.seriesId) {
+            meeting.seriesId = data.seriesId;
+            meeting.occurrenceIndex = data.occurrenceIndex ?? 0;
+        }
+
+        if (data.passcode) {
+            meeting.passcodeHash = await hashPasscode(data.passcode);
+        } else if (data.passcodeHash) {
+            meeting.passcodeHash = data.passcodeHash;
+        }
+
+        // Save to storage
+        await getMeetingRepository().create(meeting);
 
-        // Cache in memory
-        activeMeetings.set(meetingId, meeting);
+        // Cache as active
+        await getMeetingStateStore().set(meeting);
+
+        // Index it in the creator's history
+        await recordParticipation(meeting, data.createdBy, false);
 
         console.log(`✅ Meeting created: ${meetingId} by ${data.createdBy}`);
         return meeting;
@@ -78,7 +156,20 @@ export const createMeeting = async (
 };
 
 /**
- * Retrieves a meeting by ID from cache or Firestore
+ * Loads a meeting from the state store, falling back to storage
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @returns {Promise<Meeting | null>} Meeting object or null if not found
+ */
+const loadMeeting = async (meetingId: string): Promise<Meeting | null> => {
+    const cached = await getMeetingStateStore().get(meetingId);
+    return cached || getMeetingRepository().findById(meetingId);
+};
+
+/**
+ * Retrieves a meeting by ID from cache or storage
+ * Reads do not fill the cache: only mutateMeeting does, under the meeting's
+ * lock, so a stale read can never overwrite a newer cached state.
  * 
  * @param {string} meetingId - Meeting ID to retrieve
  * @returns {Promise<Meeting | null>} Meeting object or null if not found
@@ -90,42 +181,122 @@ export const getMeetingById = async (
         return null;
     }
 
-    // Check cache first
-    if (activeMeetings.has(meetingId)) {
-        return activeMeetings.get(meetingId)!;
-    }
-
-    // Check Firestore
     try {
-        const doc = await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).get();
+        return await loadMeeting(meetingId);
+    } catch (error) {
+        console.error("Error getting meeting:", error);
+        return null;
+    }
+};
 
-        if (!doc.exists) {
-            return null;
+/**
+ * Applies a change to a meeting while holding its lock
+ * `mutate` receives the latest state (or null if the meeting does not exist),
+ * changes it in place and persists what it changed through the repository.
+ * Afterwards the meeting is cached if still active, or evicted if not.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {Function} mutate - Change to apply; its return value is passed through
+ * @returns {Promise<T>} Result of `mutate`
+ */
+export const mutateMeeting = async <T>(
+    meetingId: string,
+    mutate: (meeting: Meeting | null) => Promise<T>
+): Promise<T> => {
+    const store = getMeetingStateStore();
+
+    return store.withLock(meetingId, async () => {
+        const meeting = isValidMeetingId(meetingId) ? await loadMeeting(meetingId) : null;
+        const result = await mutate(meeting);
+
+        if (meeting?.isActive) {
+            await store.set(meeting);
+        } else if (meeting) {
+            await store.delete(meetingId);
         }
 
-        const data = doc.data() as Meeting;
+        return result;
+    });
+};
 
-        // Convert Firestore timestamps to Date objects
-        const meeting: Meeting = {
-            ...data,
-            createdAt: data.createdAt instanceof Date ? data.createdAt : (data.createdAt as any).toDate(),
-            participants: data.participants || [],
-            messages: (data.messages || []).map((msg: any) => ({
-                ...msg,
-                timestamp: msg.timestamp instanceof Date ? msg.timestamp : (msg.timestamp as any).toDate()
-            })),
-        };
+/**
+ * Checks whether a user is the current host of a meeting
+ * 
+ * @param {Meeting} meeting - Meeting to check
+ * @param {string} uid - User ID
+ * @returns {boolean} True if the user holds host rights
+ */
+export const isHost = (meeting: Meeting, uid: string): boolean => {
+    return meeting.hostId === uid;
+};
 
-        // Cache it
-        activeMeetings.set(meetingId, meeting);
+/**
+ * Checks whether a user took part in a meeting: the host, its creator, or
+ * anyone who joined it, even if they already left
+ * 
+ * @param {Meeting} meeting - Meeting to check
+ * @param {string} uid - User ID
+ * @returns {boolean} True if the user may see the meeting's records
+ */
+export const isMeetingMember = (meeting: Meeting, uid: string): boolean => {
+    return isHost(meeting, uid) ||
+        meeting.createdBy === uid ||
+        meeting.attendees.some((a) => a.uid === uid) ||
+        meeting.participants.some((p) => p.uid === uid);
+};
 
-        return meeting;
-    } catch (error) {
-        console.error("Error getting meeting:", error);
-        return null;
+/**
+ * Adds a participant to the meeting's attendees the first time they join
+ * 
+ * @param {Meeting} meeting - Meeting being joined; changed in place
+ * @param {Participant} participant - Participant who joined
+ */
+export const recordAttendance = (meeting: Meeting, participant: Participant): void => {
+    if (!meeting.attendees.some((a) => a.uid === participant.uid)) {
+        meeting.attendees.push({
+            uid: participant.uid,
+            name: participant.name,
+            joinedAt: participant.joinedAt,
+        });
     }
 };
 
+/**
+ * Returns when a meeting starts accepting joins, for scheduled meetings
+ * 
+ * @param {Meeting} meeting - Meeting to check
+ * @returns {Date | null} Opening time, or null if the meeting was not scheduled
+ */
+export const getJoinOpensAt = (meeting: Meeting): Date | null => {
+    return meeting.scheduledStart
+        ? new Date(meeting.scheduledStart.getTime() - EARLY_JOIN_MINUTES * 60 * 1000)
+        : null;
+};
+
+/**
+ * Marks a meeting as ended and queues its summary
+ * Must be called from within mutateMeeting.
+ * 
+ * @param {Meeting} meeting - Active meeting; changed in place
+ * @param {MeetingEndReason} reason - Why the meeting ends
+ * @returns {Promise<void>}
+ */
+const closeMeeting = async (meeting: Meeting, reason: MeetingEndReason): Promise<void> => {
+    meeting.isActive = false;
+    meeting.endedAt = new Date();
+    meeting.endReason = reason;
+
+    // Update storage
+    await getMeetingRepository().update(meeting.meetingId, {
+        isActive: false,
+        endedAt: meeting.endedAt,
+        endReason: reason,
+    });
+
+    // Summarize in the background; a no-op if a summary was already queued
+    await enqueueSummary(meeting.meetingId);
+};
+
 /**
  * Ends a meeting explicitly (by host)
  * 
@@ -138,167 +309,406 @@ export const endMeeting = async (
     uid: string
 ): Promise<{ success: boolean; error?: string }> => {
     try {
-        const meeting = await getMeetingById(meetingId);
-
-        if (!meeting) {
-            return { success: false, error: "Meeting not found" };
-        }
-
-        // Verify ownership
-        if (meeting.createdBy !== uid) {
-            return { success: false, error: "Only the host can end the meeting" };
-        }
+        return await mutateMeeting(meetingId, async (meeting) => {
+            if (!meeting) {
+                return { success: false, error: "Meeting not found" };
+            }
 
-        meeting.isActive = false;
-        activeMeetings.delete(meetingId);
+            // Verify ownership
+            if (!isHost(meeting, uid)) {
+                return { success: false, error: "Only the host can end the meeting" };
+            }
 
-        // Generate summary immediately
-        if (meeting.messages && meeting.messages.length > 0) {
-            console.log(`🤖 Generating summary for ended meeting ${meetingId}...`);
-            generateMeetingSummary(meeting.messages)
-                .then(async (summary) => {
-                    await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).update({
-                        summary: summary
-                    });
-                    console.log(`✅ Summary generated for meeting ${meetingId}`);
-                })
-                .catch(err => console.error("Error generating summary:", err));
-        }
+            await closeMeeting(meeting, "host");
 
-        // Update Firestore
-        await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).update({
-            isActive: false,
+            console.log(`🛑 Meeting ${meetingId} ended by host ${uid}`);
+            return { success: true };
         });
-
-        console.log(`🛑 Meeting ${meetingId} ended by host ${uid}`);
-        return { success: true };
     } catch (error) {
         console.error("Error ending meeting:", error);
         return { success: false, error: "Failed to end meeting" };
     }
 };
 
+/**
+ * Ends a meeting that ran past its scheduled end or sat idle
+ * The conditions are checked again under the meeting's lock, so a meeting
+ * that got new activity in the meantime is left alone. A meeting with
+ * connected participants is never idle, chat or not: its activity time is
+ * moved to now instead, so the next checks skip it for a full idle period.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {Date} now - Current time
+ * @param {Date | null} idleBefore - Meetings without activity since this time are idle; null to skip
+ * @returns {Promise<MeetingEndReason | null>} Why the meeting was ended, or null if it was not
+ */
+export const expireMeeting = async (
+    meetingId: string,
+    now: Date,
+    idleBefore: Date | null
+): Promise<MeetingEndReason | null> => {
+    try {
+        return await mutateMeeting(meetingId, async (meeting) => {
+            if (!meeting?.isActive) {
+                return null;
+            }
+
+            const expired = !!meeting.scheduledEnd && meeting.scheduledEnd <= now;
+            const idle = !!idleBefore && !!meeting.lastActivityAt && meeting.lastActivityAt <= idleBefore;
+
+            if (!expired && idle && meeting.participants.some((p) => p.status === "connected")) {
+                meeting.lastActivityAt = now;
+                await getMeetingRepository().update(meetingId, { lastActivityAt: now });
+                return null;
+            }
+
+            const reason: MeetingEndReason | null = expired ? "expired" : idle ? "idle" : null;
+
+            if (!reason) {
+                return null;
+            }
+
+            await closeMeeting(meeting, reason);
+
+            console.log(`⏰ Meeting ${meetingId} ended automatically (${reason})`);
+            return reason;
+        });
+    } catch (error) {
+        console.error("Error expiring meeting:", error);
+        return null;
+    }
+};
+
+/**
+ * Queues a new summary of an ended meeting (by host)
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID requesting the summary
+ * @returns {Promise<{success: boolean, job?: SummaryJob, error?: string}>}
+ */
+export const regenerateSummary = async (
+    meetingId: string,
+    uid: string
+): Promise<{ success: boolean; job?: SummaryJob; error?: string }> => {
+    const meeting = await getMeetingById(meetingId);
+
+    if (!meeting) {
+        return { success: false, error: "Meeting not found" };
+    }
+
+    if (!isHost(meeting, uid)) {
+        return { success: false, error: "Only the host can regenerate the summary" };
+    }
+
+    if (meeting.isActive) {
+        return { success: false, error: "The meeting has not ended yet" };
+    }
+
+    return enqueueSummary(meetingId, true);
+};
+
 /**
  * Adds a participant to a meeting
+ * In lobby mode, new users other than the host are queued in
+ * `pendingParticipants` and the result has `pending: true`.
+ * Passcode-protected meetings require the passcode or a valid invite token;
+ * a wrong or missing one sets `passcodeRejected: true`.
+ * A participant rejoining with the same uid gets their slot back;
+ * `reconnected: true` is set if they were in the reconnection grace period.
  * 
  * @param {JoinMeetingData} data - Join meeting data
- * @returns {Promise<{success: boolean, meeting?: Meeting, error?: string}>} Result object
+ * @returns {Promise<{success: boolean, meeting?: Meeting, pending?: boolean, reconnected?: boolean, passcodeRejected?: boolean, error?: string}>} Result object
  */
 export const joinMeeting = async (
     data: JoinMeetingData
-): Promise<{ success: boolean; meeting?: Meeting; error?: string }> => {
+): Promise<{
+    success: boolean;
+    meeting?: Meeting;
+    pending?: boolean;
+    reconnected?: boolean;
+    passcodeRejected?: boolean;
+    error?: string;
+}> => {
     try {
-        const meeting = await getMeetingById(data.meetingId);
+        return await mutateMeeting(data.meetingId, async (meeting) => {
+            if (!meeting) {
+                return { success: false, error: "Meeting not found" };
+            }
 
-        if (!meeting) {
-            return { success: false, error: "Meeting not found" };
-        }
+            if (!meeting.isActive) {
+                return { success: false, error: "Meeting is no longer active" };
+            }
 
-        if (!meeting.isActive) {
-            return { success: false, error: "Meeting is no longer active" };
-        }
+            if (meeting.bannedUids.includes(data.uid)) {
+                return { success: false, error: "You have been removed from this meeting" };
+            }
 
-        // Check if user is already in the meeting
-        const existingParticipant = meeting.participants.find(
-            (p) => p.uid === data.uid
-        );
-
-        if (existingParticipant) {
-            // Update socket ID if user reconnects
-            existingParticipant.socketId = data.socketId;
-        } else {
-            // Check participant limit
-            if (meeting.participants.length >= meeting.maxParticipants) {
-                return {
-                    success: false,
-                    error: `Meeting is full (max ${meeting.maxParticipants} participants)`,
-                };
+            const now = new Date();
+
+            // Scheduled meetings open shortly before their start and close at their end
+            const opensAt = getJoinOpensAt(meeting);
+
+            if (opensAt && now < opensAt) {
+                return { success: false, error: `Meeting opens at ${opensAt.toISOString()}` };
             }
 
-            // Add new participant
-            const participant: Participant = {
-                uid: data.uid,
-                name: data.name,
-                socketId: data.socketId,
-                joinedAt: new Date(),
-            };
+            if (meeting.scheduledEnd && meeting.scheduledEnd <= now) {
+                return { success: false, error: "Meeting is no longer active" };
+            }
 
-            meeting.participants.push(participant);
-        }
+            // Check if user is already in the meeting
+            const existingParticipant = meeting.participants.find(
+                (p) => p.uid === data.uid
+            );
+
+            const reconnected = existingParticipant?.status === "reconnecting";
+
+            if (existingParticipant) {
+                // Update socket ID if user reconnects
+                existingParticipant.socketId = data.socketId;
+                existingParticipant.status = "connected";
+                delete existingParticipant.disconnectedAt;
+            } else {
+                // Only the host may enter a locked meeting
+                if (meeting.isLocked && !isHost(meeting, data.uid)) {
+                    return { success: false, error: "Meeting is locked by the host" };
+                }
+
+                // Passcode-protected meetings accept the passcode or an invite for this meeting
+                if (meeting.passcodeHash && !isHost(meeting, data.uid)) {
+                    const invite = data.inviteToken ? verifyInviteToken(data.inviteToken) : null;
+                    const allowed = invite?.meetingId === data.meetingId ||
+                        (!!data.passcode && await verifyPasscode(data.passcode, meeting.passcodeHash));
+
+                    if (!allowed) {
+                        return {
+                            success: false,
+                            passcodeRejected: true,
+                            error: data.passcode ? "Invalid passcode" : "Passcode required",
+                        };
+                    }
+                }
+
+                // Check participant limit
+                if (meeting.participants.length >= meeting.maxParticipants) {
+                    return {
+                        success: false,
+                        error: `Meeting is full (max ${meeting.maxParticipants} participants)`,
+                    };
+                }
+
+                // Queue in the lobby until the host admits the user
+                if (meeting.lobbyEnabled && !isHost(meeting, data.uid)) {
+                    const pending: PendingParticipant = {
+                        uid: data.uid,
+                        name: data.name,
+                        socketId: data.socketId,
+                        requestedAt: new Date(),
+                    };
+
+                    meeting.pendingParticipants = meeting.pendingParticipants
+                        .filter((p) => p.uid !== data.uid)
+                        .concat(pending);
+
+                    await getMeetingRepository().update(data.meetingId, {
+                        pendingParticipants: meeting.pendingParticipants,
+                    });
 
-        // Update Firestore
-        await db.collection(COLLECTIONS.MEETINGS).doc(data.meetingId).update({
-            participants: meeting.participants,
-        });
+                    console.log(`⏳ User ${data.name} waiting in lobby of meeting ${data.meetingId}`);
+                    return { success: true, meeting, pending: true };
+                }
+
+                // Add new participant
+                const participant: Participant = {
+                    uid: data.uid,
+                    name: data.name,
+                    socketId: data.socketId,
+                    joinedAt: new Date(),
+                    status: "connected",
+                };
+
+                meeting.participants.push(participant);
+                recordAttendance(meeting, participant);
+            }
 
-        // Update cache
-        activeMeetings.set(data.meetingId, meeting);
+            meeting.lastActivityAt = now;
 
-        console.log(`✅ User ${data.name} joined meeting ${data.meetingId}`);
-        return { success: true, meeting };
+            // Update storage
+            await getMeetingRepository().update(data.meetingId, {
+                participants: meeting.participants,
+                attendees: meeting.attendees,
+                lastActivityAt: now,
+            });
+
+            await recordParticipation(meeting, data.uid, true);
+
+            console.log(`✅ User ${data.name} joined meeting ${data.meetingId}`);
+            return { success: true, meeting, reconnected };
+        });
     } catch (error) {
         console.error("Error joining meeting:", error);
         return { success: false, error: "Failed to join meeting" };
     }
 };
 
+/**
+ * Marks a participant as reconnecting after their socket disconnected
+ * The participant keeps their slot until leaveMeeting is called for the same socket.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} socketId - Socket ID that disconnected
+ * @returns {Promise<Participant | null>} The participant, or null if no participant uses that socket
+ */
+export const markParticipantDisconnected = async (
+    meetingId: string,
+    socketId: string
+): Promise<Participant | null> => {
+    try {
+        return await mutateMeeting(meetingId, async (meeting) => {
+            const participant = meeting?.participants.find((p) => p.socketId === socketId);
+
+            if (!meeting || !participant) {
+                return null;
+            }
+
+            participant.status = "reconnecting";
+            participant.disconnectedAt = new Date();
+
+            await getMeetingRepository().update(meetingId, {
+                participants: meeting.participants,
+            });
+
+            return participant;
+        });
+    } catch (error) {
+        console.error("Error marking participant as disconnected:", error);
+        return null;
+    }
+};
+
 /**
  * Removes a participant from a meeting
  * 
  * @param {string} meetingId - Meeting ID
  * @param {string} socketId - Socket ID of the participant leaving
- * @returns {Promise<void>}
+ * @returns {Promise<boolean>} True if a participant was removed
  */
 export const leaveMeeting = async (
     meetingId: string,
     socketId: string
-): Promise<void> => {
+): Promise<boolean> => {
     try {
-        const meeting = await getMeetingById(meetingId);
+        return await mutateMeeting(meetingId, async (meeting) => {
+            if (!meeting) {
+                return false;
+            }
 
-        if (!meeting) {
-            return;
-        }
+            // Nothing to do if the participant was already removed (e.g. kicked)
+            if (!meeting.participants.some((p) => p.socketId === socketId)) {
+                return false;
+            }
+
+            // Remove participant
+            meeting.participants = meeting.participants.filter(
+                (p) => p.socketId !== socketId
+            );
 
-        // Remove participant
-        meeting.participants = meeting.participants.filter(
-            (p) => p.socketId !== socketId
-        );
-
-        // If no participants left, mark meeting as inactive
-        if (meeting.participants.length === 0) {
-            meeting.isActive = false;
-            activeMeetings.delete(meetingId);
-
-            // Generate summary if there are messages
-            if (meeting.messages && meeting.messages.length > 0) {
-                console.log(`🤖 Generating summary for meeting ${meetingId}...`);
-                // Run in background to not block the response
-                generateMeetingSummary(meeting.messages)
-                    .then(async (summary) => {
-                        await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).update({
-                            summary: summary
-                        });
-                        console.log(`✅ Summary generated for meeting ${meetingId}`);
-                    })
-                    .catch(err => console.error("Error generating summary:", err));
+            // The idle time of a meeting left open counts from the last leave
+            meeting.lastActivityAt = new Date();
+
+            // Update storage
+            await getMeetingRepository().update(meetingId, {
+                participants: meeting.participants,
+                lastActivityAt: meeting.lastActivityAt,
+            });
+
+            // If no participants left, the meeting is over; scheduled meetings
+            // stay open for latecomers until their end time or until idle
+            if (meeting.participants.length === 0 && meeting.isActive && !meeting.scheduledStart) {
+                await closeMeeting(meeting, "empty");
             }
-        }
 
-        // Update Firestore
-        await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).update({
-            participants: meeting.participants,
-            isActive: meeting.isActive,
+            console.log(`✅ User left meeting ${meetingId}`);
+            return true;
         });
-
-        console.log(`✅ User left meeting ${meetingId}`);
     } catch (error) {
         console.error("Error leaving meeting:", error);
+        return false;
+    }
+};
+
+/**
+ * Issues a signed invite token that lets its holder join without the passcode
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID requesting the invite (must be the host)
+ * @param {number} [ttlMinutes] - Lifetime in minutes, capped at 7 days
+ * @returns {Promise<{success: boolean, token?: string, expiresAt?: Date, error?: string}>}
+ */
+export const issueInviteToken = async (
+    meetingId: string,
+    uid: string,
+    ttlMinutes: number = DEFAULT_INVITE_TTL_MINUTES
+): Promise<{ success: boolean; token?: string; expiresAt?: Date; error?: string }> => {
+    const meeting = await getMeetingById(meetingId);
+
+    if (!meeting) {
+        return { success: false, error: "Meeting not found" };
+    }
+
+    if (!meeting.isActive) {
+        return { success: false, error: "Meeting is no longer active" };
+    }
+
+    if (!isHost(meeting, uid)) {
+        return { success: false, error: "Only the host can create invites" };
+    }
+
+    const minutes = Math.min(Math.max(1, ttlMinutes || DEFAULT_INVITE_TTL_MINUTES), MAX_INVITE_TTL_MINUTES);
+    const { token, expiresAt } = createInviteToken(meetingId, minutes * 60 * 1000);
+
+    console.log(`🎟️ Invite issued for meeting ${meetingId}, expires ${expiresAt.toISOString()}`);
+    return { success: true, token, expiresAt };
+};
+
+/**
+ * Removes a user from a meeting's lobby, e.g. when their socket disconnects
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} socketId - Socket ID of the waiting user
+ * @returns {Promise<PendingParticipant | null>} Removed user, or null if they were not waiting
+ */
+export const leaveLobby = async (
+    meetingId: string,
+    socketId: string
+): Promise<PendingParticipant | null> => {
+    try {
+        return await mutateMeeting(meetingId, async (meeting) => {
+            const pending = meeting?.pendingParticipants.find((p) => p.socketId === socketId);
+
+            if (!meeting || !pending) {
+                return null;
+            }
+
+            meeting.pendingParticipants = meeting.pendingParticipants.filter(
+                (p) => p.socketId !== socketId
+            );
+
+            await getMeetingRepository().update(meetingId, {
+                pendingParticipants: meeting.pendingParticipants,
+            });
+
+            return pending;
+        });
+    } catch (error) {
+        console.error("Error leaving lobby:", error);
+        return null;
     }
 };
 
 /**
  * Adds a message to a meeting's chat history
+ * Each message is stored as its own record.
  * 
  * @param {string} meetingId - Meeting ID
  * @param {ChatMessage} message - Message to add
@@ -315,21 +725,76 @@ export const addMessage = async (
             throw new Error("Meeting not found");
         }
 
-        meeting.messages.push(message);
+        await getMeetingRepository().addMessage(meetingId, message);
 
-        // Update Firestore
-        await db.collection(COLLECTIONS.MEETINGS).doc(meetingId).update({
-            messages: meeting.messages,
-        });
+        // Keeps the meeting from being ended as idle; written at most once a minute
+        const lastActivity = meeting.lastActivityAt?.getTime() || 0;
 
-        // Update cache
-        activeMeetings.set(meetingId, meeting);
+        if (message.timestamp.getTime() - lastActivity > ACTIVITY_WRITE_INTERVAL_MS) {
+            await mutateMeeting(meetingId, async (current) => {
+                if (current?.isActive) {
+                    current.lastActivityAt = message.timestamp;
+                    await getMeetingRepository().update(meetingId, { lastActivityAt: message.timestamp });
+                }
+            });
+        }
     } catch (error) {
         console.error("Error adding message:", error);
         throw error;
     }
 };
 
+/**
+ * Gets a single message of a meeting, as seen by a user
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} messageId - Message ID
+ * @param {string} viewerId - User ID asking; private messages of others are hidden
+ * @returns {Promise<ChatMessage | null>} Message or null if not found or not visible
+ */
+export const getMessage = async (
+    meetingId: string,
+    messageId: string,
+    viewerId: string
+): Promise<ChatMessage | null> => {
+    if (!isValidMeetingId(meetingId) || typeof messageId !== "string" || !messageId) {
+        return null;
+    }
+
+    const message = await getMeetingRepository().getMessage(meetingId, messageId);
+    return message && isMessageVisibleTo(message, viewerId) ? message : null;
+};
+
+/**
+ * Gets a page of a meeting's chat history, as seen by a user
+ * Private messages are only included when the user sent or received them.
+ * Callers must check that the user is a member of the meeting first.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} viewerId - User ID requesting the history
+ * @param {string} [before] - Cursor (message ID); only older messages are returned
+ * @param {number} [limit] - Page size, capped at MAX_HISTORY_PAGE_SIZE
+ * @returns {Promise<MessagePage>} Messages ordered oldest to newest and the next cursor
+ */
+export const getMessageHistory = async (
+    meetingId: string,
+    viewerId: string,
+    before?: string,
+    limit: number = RECENT_MESSAGES_LIMIT
+): Promise<MessagePage> => {
+    const pageSize = Math.min(Math.max(1, Math.floor(limit) || RECENT_MESSAGES_LIMIT), MAX_HISTORY_PAGE_SIZE);
+    const messages = await getMeetingRepository().getMessages(meetingId, {
+        before,
+        limit: pageSize,
+        viewerId,
+    });
+
+    return {
+        messages,
+        nextCursor: messages.length === pageSize ? messages[0].id : null,
+    };
+};
+
 /**
  * Gets all participants in a meeting
  * 
@@ -342,5 +807,3 @@ export const getParticipants = async (
     const meeting = await getMeetingById(meetingId);
     return meeting?.participants || [];
 };
-
-import admin from "firebase-admin";
@@ -0,0 +1,316 @@
+/**
+ * Message Service
+ * 
+ * Business logic for changing chat messages after they were sent:
+ * editing, deleting and reacting, plus read receipts.
+ * 
+ * @module services/messageService
+ */
+
+import { getMeetingById, getMessage, isHost, mutateMeeting } from "./meetingService";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { isValidMessage, isValidReaction } from "../utils/validation";
+import { isPublicMessage } from "../utils/messageVisibility";
+import type { ChatMessage, ReadPosition } from "../models/meeting";
+
+/**
+ * Result of a message update
+ * @interface MessageUpdateResult
+ */
+export interface MessageUpdateResult {
+    success: boolean;
+    error?: string;
+    /** Message after the update */
+    message?: ChatMessage;
+    /** Users the message mentioned before an edit */
+    previousMentions?: string[];
+}
+
+/**
+ * Returns the deleted version of a message: its text, edit history,
+ * reactions and translations are cleared so nothing of it reaches clients
+ * 
+ * @param {ChatMessage} message - Message to delete
+ * @param {string} deletedBy - User ID deleting it
+ * @param {Date} [deletedAt] - Time of the deletion
+ * @returns {ChatMessage} Deleted message
+ */
+export const toDeletedMessage = (
+    message: ChatMessage,
+    deletedBy: string,
+    deletedAt: Date = new Date()
+): ChatMessage => ({
+    ...message,
+    text: "",
+    editHistory: [],
+    reactions: {},
+    translations: {},
+    deleted: true,
+    deletedAt,
+    deletedBy,
+});
+
+/**
+ * Loads a message that can still be changed and that the user can see
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} messageId - Message ID
+ * @param {string} uid - User ID acting on the message
+ * @returns {Promise<{message?: ChatMessage, error?: string}>}
+ */
+const loadMessage = async (
+    meetingId: string,
+    messageId: string,
+    uid: string
+): Promise<{ message?: ChatMessage; error?: string }> => {
+    const message = await getMessage(meetingId, messageId, uid);
+
+    if (!message) {
+        return { error: "Message not found" };
+    }
+
+    if (message.deleted) {
+        return { error: "Message was deleted" };
+    }
+
+    return { message };
+};
+
+/**
+ * Edits the text of a message; only its author may edit it
+ * The previous text is kept in `editHistory`. Messages waiting for host
+ * review cannot be edited.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID of the editor
+ * @param {string} messageId - Message ID
+ * @param {string} text - New text, already through content moderation
+ * @param {string[]} mentions - Users mentioned in the new text; only public messages keep them
+ * @param {boolean} [hold] - Hold the edited message for host review; its mentions then
+ *   only change once the host approves it
+ * @returns {Promise<MessageUpdateResult>}
+ */
+export const editMessage = async (
+    meetingId: string,
+    uid: string,
+    messageId: string,
+    text: string,
+    mentions: string[],
+    hold: boolean = false
+): Promise<MessageUpdateResult> => {
+    try {
+        if (!isValidMessage(text)) {
+            return { success: false, error: "Invalid message" };
+        }
+
+        const { message, error } = await loadMessage(meetingId, messageId, uid);
+
+        if (!message) {
+            return { success: false, error };
+        }
+
+        if (message.userId !== uid) {
+            return { success: false, error: "Only the author can edit this message" };
+        }
+
+        if (message.heldForReview) {
+            return { success: false, error: "This message is waiting for review" };
+        }
+
+        let changed = false;
+        let previousMentions: string[] = [];
+
+        const updated = await getMeetingRepository().updateMessage(meetingId, messageId, (current) => {
+            // Deleted or held in the meantime
+            changed = !current.deleted && !current.heldForReview;
+
+            if (!changed) {
+                return current;
+            }
+
+            previousMentions = current.mentions || [];
+
+            const editedAt = new Date();
+            const edited: ChatMessage = {
+                ...current,
+                text: text.trim(),
+                editedAt,
+                editHistory: [...(current.editHistory || []), { text: current.text, editedAt }],
+                // Cached translations belong to the previous text
+                translations: {},
+            };
+
+            if (hold) {
+                edited.heldForReview = true;
+            } else if (isPublicMessage(current)) {
+                edited.mentions = mentions;
+            }
+
+            return edited;
+        });
+
+        if (!updated) {
+            return { success: false, error: "Message not found" };
+        }
+
+        return changed
+            ? { success: true, message: updated, previousMentions }
+            : { success: false, error: "Message can no longer be edited" };
+    } catch (error) {
+        console.error("Error editing message:", error);
+        return { success: false, error: "Failed to edit message" };
+    }
+};
+
+/**
+ * Deletes a message; the author or the host may delete it
+ * The text and edit history are cleared and the message is flagged as deleted.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID requesting the deletion
+ * @param {string} messageId - Message ID
+ * @returns {Promise<MessageUpdateResult>}
+ */
+export const deleteMessage = async (
+    meetingId: string,
+    uid: string,
+    messageId: string
+): Promise<MessageUpdateResult> => {
+    try {
+        const meeting = await getMeetingById(meetingId);
+
+        if (!meeting) {
+            return { success: false, error: "Meeting not found" };
+        }
+
+        const { message, error } = await loadMessage(meetingId, messageId, uid);
+
+        if (!message) {
+            return { success: false, error };
+        }
+
+        if (message.userId !== uid && !isHost(meeting, uid)) {
+            return { success: false, error: "Only the author or the host can delete this message" };
+        }
+
+        const updated = await getMeetingRepository().updateMessage(meetingId, messageId, (current) =>
+            toDeletedMessage(current, uid)
+        );
+
+        return updated ? { success: true, message: updated } : { success: false, error: "Message not found" };
+    } catch (error) {
+        console.error("Error deleting message:", error);
+        return { success: false, error: "Failed to delete message" };
+    }
+};
+
+/**
+ * Toggles a user's reaction on a message
+ * Each user counts at most once per emoji.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID reacting
+ * @param {string} messageId - Message ID
+ * @param {string} emoji - Reaction emoji
+ * @returns {Promise<MessageUpdateResult>}
+ */
+export const toggleReaction = async (
+    meetingId: string,
+    uid: string,
+    messageId: string,
+    emoji: string
+): Promise<MessageUpdateResult> => {
+    try {
+        if (!isValidReaction(emoji)) {
+            return { success: false, error: "Invalid reaction" };
+        }
+
+        const { message, error } = await loadMessage(meetingId, messageId, uid);
+
+        if (!message) {
+            return { success: false, error };
+        }
+
+        const updated = await getMeetingRepository().updateMessage(meetingId, messageId, (current) => {
+            // Deleted in the meantime
+            if (current.deleted) {
+                return current;
+            }
+
+            const reactions = { ...(current.reactions || {}) };
+            const users = reactions[emoji] || [];
+
+            if (users.includes(uid)) {
+                reactions[emoji] = users.filter((id) => id !== uid);
+            } else {
+                reactions[emoji] = [...users, uid];
+            }
+
+            if (reactions[emoji].length === 0) {
+                delete reactions[emoji];
+            }
+
+            return { ...current, reactions };
+        });
+
+        return updated ? { success: true, message: updated } : { success: false, error: "Message not found" };
+    } catch (error) {
+        console.error("Error reacting to message:", error);
+        return { success: false, error: "Failed to react to message" };
+    }
+};
+
+/**
+ * Records the last message a participant has read
+ * Positions only move forward and only track public messages, so they can be
+ * shared with the whole room.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID of the reader
+ * @param {string} messageId - ID of the last read message
+ * @returns {Promise<{success: boolean, position?: ReadPosition, changed?: boolean, error?: string}>}
+ */
+export const markRead = async (
+    meetingId: string,
+    uid: string,
+    messageId: string
+): Promise<{ success: boolean; position?: ReadPosition; changed?: boolean; error?: string }> => {
+    try {
+        return await mutateMeeting(meetingId, async (meeting) => {
+
+            if (!meeting || !meeting.participants.some((p) => p.uid === uid)) {
+                return { success: false, error: "Not in this meeting" };
+            }
+
+            const message = await getMessage(meetingId, messageId, uid);
+
+            if (!message) {
+                return { success: false, error: "Message not found" };
+            }
+
+            const current = meeting.readPositions[uid];
+
+            if (!isPublicMessage(message) ||
+                (current && current.messageTimestamp.getTime() >= message.timestamp.getTime())) {
+                return { success: true, position: current, changed: false };
+            }
+
+            const position: ReadPosition = {
+                messageId: message.id,
+                messageTimestamp: message.timestamp,
+                readAt: new Date(),
+            };
+
+            meeting.readPositions[uid] = position;
+
+            await getMeetingRepository().update(meetingId, {
+                readPositions: meeting.readPositions,
+            });
+
+            return { success: true, position, changed: true };
+        });
+    } catch (error) {
+        console.error("Error marking message as read:", error);
+        return { success: false, error: "Failed to mark message as read" };
+    }
+};
@@ -0,0 +1,392 @@
+/**
+ * Moderation Service
+ * 
+ * Host-only controls over a meeting: admitting users from the lobby,
+ * removing participants, muting chat, locking the room, turning the AI
+ * assistant on or off and transferring host rights. All state is persisted
+ * on the Meeting so it survives cache eviction, and every action runs under
+ * the meeting's lock through mutateMeeting.
+ * 
+ * @module services/moderationService
+ */
+
+import { getMeetingById, isHost, mutateMeeting, recordAttendance } from "./meetingService";
+import { recordParticipation } from "./historyService";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import type { Meeting, Participant, PendingParticipant } from "../models/meeting";
+
+/**
+ * Result of a moderation action
+ * @interface ModerationResult
+ */
+export interface ModerationResult {
+    success: boolean;
+    error?: string;
+    /** Meeting after the action was applied */
+    meeting?: Meeting;
+    /** Participant targeted by the action, if any */
+    participant?: Participant;
+    /** Lobby entry targeted by an admit or deny action */
+    pending?: PendingParticipant;
+}
+
+/**
+ * Verifies that a meeting is active and that the caller is its host
+ * 
+ * @param {Meeting | null} meeting - Meeting loaded under its lock
+ * @param {string} hostUid - User ID of the caller
+ * @returns {{meeting?: Meeting, error?: string}}
+ */
+const authorizeHost = (
+    meeting: Meeting | null,
+    hostUid: string
+): { meeting?: Meeting; error?: string } => {
+    if (!meeting) {
+        return { error: "Meeting not found" };
+    }
+
+    if (!meeting.isActive) {
+        return { error: "Meeting is no longer active" };
+    }
+
+    if (!isHost(meeting, hostUid)) {
+        return { error: "Only the host can do this" };
+    }
+
+    return { meeting };
+};
+
+/**
+ * Admits a user waiting in the lobby as a participant
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to admit
+ * @returns {Promise<ModerationResult>} Result with the new participant and its lobby entry
+ */
+export const admitParticipant = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            const pending = meeting.pendingParticipants.find((p) => p.uid === targetUid);
+
+            if (!pending) {
+                return { success: false, error: "User is not waiting in the lobby" };
+            }
+
+            if (meeting.participants.length >= meeting.maxParticipants) {
+                return {
+                    success: false,
+                    error: `Meeting is full (max ${meeting.maxParticipants} participants)`,
+                };
+            }
+
+            const participant: Participant = {
+                uid: pending.uid,
+                name: pending.name,
+                socketId: pending.socketId,
+                joinedAt: new Date(),
+                status: "connected",
+            };
+
+            meeting.pendingParticipants = meeting.pendingParticipants.filter(
+                (p) => p.uid !== targetUid
+            );
+            meeting.participants.push(participant);
+            recordAttendance(meeting, participant);
+
+            await getMeetingRepository().update(meetingId, {
+                participants: meeting.participants,
+                pendingParticipants: meeting.pendingParticipants,
+                attendees: meeting.attendees,
+            });
+
+            await recordParticipation(meeting, participant.uid, true);
+
+            console.log(`✅ ${participant.name} admitted to meeting ${meetingId}`);
+            return { success: true, meeting, participant, pending };
+        });
+    } catch (error) {
+        console.error("Error admitting participant:", error);
+        return { success: false, error: "Failed to admit participant" };
+    }
+};
+
+/**
+ * Rejects a user waiting in the lobby
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to reject
+ * @returns {Promise<ModerationResult>} Result with the removed lobby entry
+ */
+export const denyParticipant = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            const pending = meeting.pendingParticipants.find((p) => p.uid === targetUid);
+
+            if (!pending) {
+                return { success: false, error: "User is not waiting in the lobby" };
+            }
+
+            meeting.pendingParticipants = meeting.pendingParticipants.filter(
+                (p) => p.uid !== targetUid
+            );
+
+            await getMeetingRepository().update(meetingId, {
+                pendingParticipants: meeting.pendingParticipants,
+            });
+
+            console.log(`⛔ ${pending.name} denied entry to meeting ${meetingId}`);
+            return { success: true, meeting, pending };
+        });
+    } catch (error) {
+        console.error("Error denying participant:", error);
+        return { success: false, error: "Failed to deny participant" };
+    }
+};
+
+/**
+ * Removes a participant from a meeting and blocks them from rejoining
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to remove
+ * @returns {Promise<ModerationResult>} Result with the removed participant
+ */
+export const kickParticipant = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            if (targetUid === hostUid) {
+                return { success: false, error: "The host cannot remove themselves" };
+            }
+
+            const participant = meeting.participants.find((p) => p.uid === targetUid);
+
+            if (!participant) {
+                return { success: false, error: "Participant not found" };
+            }
+
+            meeting.participants = meeting.participants.filter((p) => p.uid !== targetUid);
+            if (!meeting.bannedUids.includes(targetUid)) {
+                meeting.bannedUids.push(targetUid);
+            }
+
+            await getMeetingRepository().update(meetingId, {
+                participants: meeting.participants,
+                bannedUids: meeting.bannedUids,
+            });
+
+            console.log(`🚫 ${participant.name} removed from meeting ${meetingId}`);
+            return { success: true, meeting, participant };
+        });
+    } catch (error) {
+        console.error("Error removing participant:", error);
+        return { success: false, error: "Failed to remove participant" };
+    }
+};
+
+/**
+ * Stops or allows a participant sending chat messages
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {string} targetUid - User ID to mute or unmute
+ * @param {boolean} muted - True to mute, false to unmute
+ * @returns {Promise<ModerationResult>} Result with the targeted participant
+ */
+export const setParticipantMuted = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string,
+    muted: boolean
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            const participant = meeting.participants.find((p) => p.uid === targetUid);
+
+            if (!participant) {
+                return { success: false, error: "Participant not found" };
+            }
+
+            meeting.mutedUids = meeting.mutedUids.filter((uid) => uid !== targetUid);
+            if (muted) {
+                meeting.mutedUids.push(targetUid);
+            }
+
+            await getMeetingRepository().update(meetingId, {
+                mutedUids: meeting.mutedUids,
+            });
+
+            console.log(`🔇 ${participant.name} ${muted ? "muted" : "unmuted"} in meeting ${meetingId}`);
+            return { success: true, meeting, participant };
+        });
+    } catch (error) {
+        console.error("Error muting participant:", error);
+        return { success: false, error: "Failed to update participant" };
+    }
+};
+
+/**
+ * Locks or unlocks a meeting against new joins
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {boolean} locked - True to lock, false to unlock
+ * @returns {Promise<ModerationResult>}
+ */
+export const setMeetingLocked = async (
+    meetingId: string,
+    hostUid: string,
+    locked: boolean
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            meeting.isLocked = locked;
+
+            await getMeetingRepository().update(meetingId, {
+                isLocked: locked,
+            });
+
+            console.log(`🔒 Meeting ${meetingId} ${locked ? "locked" : "unlocked"}`);
+            return { success: true, meeting };
+        });
+    } catch (error) {
+        console.error("Error locking meeting:", error);
+        return { success: false, error: "Failed to update meeting" };
+    }
+};
+
+/**
+ * Turns the in-meeting AI assistant commands on or off
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the host
+ * @param {boolean} enabled - True to allow the assistant, false to turn it off
+ * @returns {Promise<ModerationResult>}
+ */
+export const setAssistantEnabled = async (
+    meetingId: string,
+    hostUid: string,
+    enabled: boolean
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            meeting.assistantEnabled = enabled;
+
+            await getMeetingRepository().update(meetingId, {
+                assistantEnabled: enabled,
+            });
+
+            console.log(`🤖 Assistant ${enabled ? "enabled" : "disabled"} in meeting ${meetingId}`);
+            return { success: true, meeting };
+        });
+    } catch (error) {
+        console.error("Error toggling assistant:", error);
+        return { success: false, error: "Failed to update meeting" };
+    }
+};
+
+/**
+ * Hands host rights to another participant
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} hostUid - User ID of the current host
+ * @param {string} targetUid - User ID of the new host
+ * @returns {Promise<ModerationResult>} Result with the new host
+ */
+export const transferHost = async (
+    meetingId: string,
+    hostUid: string,
+    targetUid: string
+): Promise<ModerationResult> => {
+    try {
+        return await mutateMeeting(meetingId, async (current) => {
+            const { meeting, error } = authorizeHost(current, hostUid);
+
+            if (!meeting) {
+                return { success: false, error };
+            }
+
+            const participant = meeting.participants.find((p) => p.uid === targetUid);
+
+            if (!participant) {
+                return { success: false, error: "Participant not found" };
+            }
+
+            meeting.hostId = targetUid;
+
+            await getMeetingRepository().update(meetingId, {
+                hostId: targetUid,
+            });
+
+            console.log(`👑 Host of meeting ${meetingId} transferred to ${participant.name}`);
+            return { success: true, meeting, participant };
+        });
+    } catch (error) {
+        console.error("Error transferring host:", error);
+        return { success: false, error: "Failed to transfer host" };
+    }
+};
+
+/**
+ * Checks whether a user has been muted by the host
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - User ID
+ * @returns {Promise<boolean>} True if the user may not chat
+ */
+export const isParticipantMuted = async (
+    meetingId: string,
+    uid: string
+): Promise<boolean> => {
+    const meeting = await getMeetingById(meetingId);
+    return !!meeting && meeting.mutedUids.includes(uid);
+};
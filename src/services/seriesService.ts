@@ -0,0 +1,192 @@
+/**
+ * Series Service
+ *
+ * Recurring meetings. A series has one stable join code; each occurrence is
+ * a regular scheduled meeting with its own chat and summary, created when
+ * the first person joins it with the series code and linked back through
+ * its `seriesId`.
+ *
+ * @module services/seriesService
+ */
+
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { getMeetingStateStore } from "../state/meetingStateStore";
+import { generateSeriesId, isValidSeriesId } from "../utils/validation";
+import { hashPasscode } from "../utils/passcode";
+import { findCurrentOccurrence, Occurrence } from "../utils/recurrence";
+import { createMeeting, isMeetingMember } from "./meetingService";
+import type {
+    Meeting,
+    MeetingSeries,
+    SeriesCreateData,
+    SeriesOccurrence,
+} from "../models/meeting";
+
+/**
+ * Creates a new meeting series and stores it in the repository
+ *
+ * @param {SeriesCreateData} data - Series creation data
+ * @returns {Promise<MeetingSeries>} Created series
+ * @throws {Error} If series creation fails
+ */
+export const createSeries = async (data: SeriesCreateData): Promise<MeetingSeries> => {
+    try {
+        const repo = getMeetingRepository();
+
+        let seriesId = generateSeriesId();
+        while (await repo.findSeriesById(seriesId)) {
+            seriesId = generateSeriesId();
+        }
+
+        const series: MeetingSeries = {
+            seriesId,
+            createdBy: data.createdBy,
+            creatorName: data.creatorName,
+            createdAt: new Date(),
+            title: data.title.trim(),
+            firstStart: data.firstStart,
+            durationMinutes: data.durationMinutes,
+            recurrence: data.recurrence,
+            lobbyEnabled: data.lobbyEnabled ?? false,
+        };
+
+        if (data.language) {
+            series.language = data.language;
+        }
+
+        if (data.passcode) {
+            series.passcodeHash = await hashPasscode(data.passcode);
+        }
+
+        await repo.createSeries(series);
+
+        console.log(`🔁 Meeting series created: ${seriesId} by ${data.createdBy}`);
+        return series;
+    } catch (error) {
+        console.error("Error creating meeting series:", error);
+        throw new Error("Failed to create meeting series");
+    }
+};
+
+/**
+ * Retrieves a meeting series by ID
+ *
+ * @param {string} seriesId - Series ID
+ * @returns {Promise<MeetingSeries | null>} Series or null if not found
+ */
+export const getSeriesById = async (seriesId: string): Promise<MeetingSeries | null> => {
+    if (!isValidSeriesId(seriesId)) {
+        return null;
+    }
+
+    try {
+        return await getMeetingRepository().findSeriesById(seriesId);
+    } catch (error) {
+        console.error("Error getting meeting series:", error);
+        return null;
+    }
+};
+
+/**
+ * Returns the occurrence of a series that is running, or the next one
+ *
+ * @param {MeetingSeries} series - Meeting series
+ * @param {Date} [now] - Time to look from
+ * @returns {Occurrence | null} Occurrence, or null when the series is over
+ */
+export const getCurrentOccurrence = (series: MeetingSeries, now: Date = new Date()): Occurrence | null => {
+    return findCurrentOccurrence(series.firstStart, series.durationMinutes, series.recurrence, now);
+};
+
+/**
+ * Returns the meeting of the current occurrence of a series, creating it on first use
+ * Runs under the series' lock so concurrent joins share one occurrence. Join
+ * rules (opening time, end, passcode, lobby) are then applied by joinMeeting.
+ *
+ * @param {string} seriesId - Series ID, as entered to join
+ * @returns {Promise<{success: boolean, meetingId?: string, error?: string}>}
+ */
+export const resolveSeriesMeeting = async (
+    seriesId: string
+): Promise<{ success: boolean; meetingId?: string; error?: string }> => {
+    try {
+        return await getMeetingStateStore().withLock(`series:${seriesId}`, async () => {
+            const series = await getSeriesById(seriesId);
+
+            if (!series) {
+                return { success: false, error: "Meeting not found" };
+            }
+
+            const occurrence = getCurrentOccurrence(series);
+
+            if (!occurrence) {
+                return { success: false, error: "This recurring meeting has ended" };
+            }
+
+            if (series.currentMeetingId && series.currentOccurrenceIndex === occurrence.index) {
+                return { success: true, meetingId: series.currentMeetingId };
+            }
+
+            const meeting = await createMeeting({
+                createdBy: series.createdBy,
+                creatorName: series.creatorName,
+                lobbyEnabled: series.lobbyEnabled,
+                passcodeHash: series.passcodeHash,
+                language: series.language,
+                title: series.title,
+                scheduledStart: occurrence.start,
+                durationMinutes: series.durationMinutes,
+                seriesId,
+                occurrenceIndex: occurrence.index,
+            });
+
+            await getMeetingRepository().updateSeries(seriesId, {
+                currentMeetingId: meeting.meetingId,
+                currentOccurrenceIndex: occurrence.index,
+            });
+
+            console.log(`🔁 Occurrence ${occurrence.index} of series ${seriesId} is meeting ${meeting.meetingId}`);
+            return { success: true, meetingId: meeting.meetingId };
+        });
+    } catch (error) {
+        console.error("Error resolving meeting series:", error);
+        return { success: false, error: "Failed to join meeting" };
+    }
+};
+
+/**
+ * Describes an occurrence for the series view
+ */
+const toSeriesOccurrence = (meeting: Meeting): SeriesOccurrence => ({
+    meetingId: meeting.meetingId,
+    occurrenceIndex: meeting.occurrenceIndex ?? 0,
+    scheduledStart: meeting.scheduledStart || null,
+    scheduledEnd: meeting.scheduledEnd || null,
+    isActive: meeting.isActive,
+    endedAt: meeting.endedAt || null,
+    attendeeCount: meeting.attendees.length,
+    summaryStatus: meeting.summaryStatus || null,
+    summary: meeting.summary || null,
+    structuredSummary: meeting.structuredSummary || null,
+});
+
+/**
+ * Lists the occurrences of a series with their summaries, for its creator
+ * and anyone who joined one of them
+ *
+ * @param {MeetingSeries} series - Meeting series
+ * @param {string} uid - User asking
+ * @returns {Promise<SeriesOccurrence[] | null>} Occurrences, oldest first, or null if the user may not see them
+ */
+export const getSeriesOccurrences = async (
+    series: MeetingSeries,
+    uid: string
+): Promise<SeriesOccurrence[] | null> => {
+    const meetings = await getMeetingRepository().findSeriesMeetings(series.seriesId);
+
+    if (series.createdBy !== uid && !meetings.some((meeting) => isMeetingMember(meeting, uid))) {
+        return null;
+    }
+
+    return meetings.map(toSeriesOccurrence);
+};
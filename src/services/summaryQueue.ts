@@ -0,0 +1,309 @@
+/**
+ * Summary Queue
+ * 
+ * Durable queue of meeting summary generations. Jobs are stored through the
+ * MeetingRepository, one per meeting, so queuing twice for the same meeting
+ * is a no-op and pending work survives restarts. A worker in every server
+ * instance polls for due jobs and claims them atomically; a job whose worker
+ * died is picked up again once its lease expires.
+ * 
+ * @module services/summaryQueue
+ */
+
+import { randomUUID } from "crypto";
+import dotenv from "dotenv";
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { isPublicMessage } from "../utils/messageVisibility";
+import { generateMeetingSummary } from "./aiService";
+import type { ChatMessage, Meeting, SummaryJob, SummaryProgress } from "../models/meeting";
+
+dotenv.config();
+
+/**
+ * Attempts per job, and delay before the first retry (doubles after each failure)
+ */
+const SUMMARY_JOB_MAX_ATTEMPTS = Number(process.env.SUMMARY_JOB_MAX_ATTEMPTS) || 3;
+const SUMMARY_JOB_RETRY_MS = Number(process.env.SUMMARY_JOB_RETRY_MS) || 60 * 1000;
+
+/**
+ * How long a running job belongs to its worker before others may take it over
+ */
+const SUMMARY_JOB_LEASE_MS = Number(process.env.SUMMARY_JOB_LEASE_MS) || 10 * 60 * 1000;
+
+/**
+ * Interval between checks for due jobs
+ */
+const SUMMARY_POLL_INTERVAL_MS = Number(process.env.SUMMARY_POLL_INTERVAL_MS) || 5000;
+
+/**
+ * Number of due jobs fetched per check
+ */
+const JOBS_PER_POLL = 5;
+
+/**
+ * Identifies this process as a worker
+ */
+const WORKER_ID = randomUUID();
+
+/**
+ * Summary fields sent to listeners when a job finishes
+ * @interface SummaryOutcome
+ */
+export interface SummaryOutcome {
+    status: "done" | "failed";
+    summary?: string;
+    structuredSummary?: Meeting["structuredSummary"];
+    error?: string;
+}
+
+const progressListeners: ((meetingId: string, progress: SummaryProgress) => void)[] = [];
+const readyListeners: ((meetingId: string, outcome: SummaryOutcome) => void)[] = [];
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Registers a listener for summary progress, e.g. to forward it to clients
+ * 
+ * @param {Function} listener - Called with the meeting ID and its progress
+ */
+export const onSummaryProgress = (
+    listener: (meetingId: string, progress: SummaryProgress) => void
+): void => {
+    progressListeners.push(listener);
+};
+
+/**
+ * Registers a listener for finished jobs, successful or not
+ * 
+ * @param {Function} listener - Called with the meeting ID and the outcome
+ */
+export const onSummaryReady = (
+    listener: (meetingId: string, outcome: SummaryOutcome) => void
+): void => {
+    readyListeners.push(listener);
+};
+
+/**
+ * Checks whether a job may be claimed now
+ */
+const isDue = (job: SummaryJob, now: Date): boolean =>
+    (job.status === "pending" && job.runAfter <= now) ||
+    (job.status === "running" && !!job.leaseExpiresAt && job.leaseExpiresAt <= now);
+
+/**
+ * Loads the messages a meeting summary may be built from
+ * Private messages, held messages and assistant replies are never included.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @returns {Promise<ChatMessage[]>} Public messages, oldest first
+ */
+const getSummaryMessages = async (meetingId: string): Promise<ChatMessage[]> => {
+    const messages = await getMeetingRepository().getAllMessages(meetingId);
+    return messages.filter((message) => isPublicMessage(message) && message.senderType !== "assistant");
+};
+
+/**
+ * Queues a summary generation for a meeting
+ * A meeting with a queued or running job is never queued twice. A meeting
+ * that already has a finished job is only queued again with `force`.
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @param {boolean} [force] - Regenerate even if a summary was already produced
+ * @returns {Promise<{success: boolean, job?: SummaryJob, error?: string}>}
+ */
+export const enqueueSummary = async (
+    meetingId: string,
+    force: boolean = false
+): Promise<{ success: boolean; job?: SummaryJob; error?: string }> => {
+    const repo = getMeetingRepository();
+    const now = new Date();
+    let existing: SummaryJob | null = null;
+
+    const job = await repo.updateSummaryJob(meetingId, (current) => {
+        existing = current;
+
+        if (current && (current.status === "pending" || current.status === "running" || !force)) {
+            return null;
+        }
+
+        return {
+            meetingId,
+            status: "pending",
+            attempts: 0,
+            maxAttempts: SUMMARY_JOB_MAX_ATTEMPTS,
+            runAfter: now,
+            createdAt: now,
+            updatedAt: now,
+        };
+    });
+
+    if (!job) {
+        const status = (existing as SummaryJob | null)?.status;
+        return {
+            success: false,
+            error: status === "pending" || status === "running"
+                ? "A summary is already being generated"
+                : "The summary was already generated",
+        };
+    }
+
+    await repo.update(meetingId, { summaryStatus: "pending" });
+    console.log(`🤖 Summary queued for meeting ${meetingId}`);
+
+    // Start right away instead of waiting for the next poll
+    setImmediate(() => pollSummaryJobs());
+    return { success: true, job };
+};
+
+/**
+ * Returns the summary job of a meeting
+ * 
+ * @param {string} meetingId - Meeting ID
+ * @returns {Promise<SummaryJob | null>} Job, or null if none was queued
+ */
+export const getSummaryJob = (meetingId: string): Promise<SummaryJob | null> => {
+    return getMeetingRepository().getSummaryJob(meetingId);
+};
+
+/**
+ * Claims a due job and generates its summary
+ * 
+ * @param {string} meetingId - Meeting whose job to run
+ * @returns {Promise<void>}
+ */
+const runSummaryJob = async (meetingId: string): Promise<void> => {
+    const repo = getMeetingRepository();
+
+    const claimed = await repo.updateSummaryJob(meetingId, (current) => {
+        const now = new Date();
+
+        if (!current || !isDue(current, now)) {
+            return null;
+        }
+
+        return {
+            ...current,
+            status: "running",
+            attempts: current.attempts + 1,
+            workerId: WORKER_ID,
+            leaseExpiresAt: new Date(now.getTime() + SUMMARY_JOB_LEASE_MS),
+            updatedAt: now,
+        };
+    });
+
+    // Another worker got there first
+    if (!claimed) {
+        return;
+    }
+
+    console.log(`🤖 Generating summary for meeting ${meetingId} (attempt ${claimed.attempts}/${claimed.maxAttempts})...`);
+    await repo.update(meetingId, { summaryStatus: "running" });
+
+    // Progress writes are chained so they land in order
+    let progressWrite: Promise<void> = Promise.resolve();
+    const reportProgress = (progress: SummaryProgress): void => {
+        progressListeners.forEach((listener) => listener(meetingId, progress));
+        progressWrite = progressWrite
+            .then(() => repo.update(meetingId, { summaryProgress: progress }))
+            .catch(err => console.error("Error saving summary progress:", err));
+    };
+
+    const meeting = await repo.findById(meetingId);
+    const messages = await getSummaryMessages(meetingId);
+    const result = await generateMeetingSummary(messages, meeting?.language, reportProgress);
+    await progressWrite;
+
+    const finished = await repo.updateSummaryJob(meetingId, (current) => {
+        // The lease expired and another worker took the job over
+        if (!current || current.status !== "running" || current.workerId !== WORKER_ID) {
+            return null;
+        }
+
+        const now = new Date();
+
+        if (result.success) {
+            return { ...current, status: "done", error: undefined, leaseExpiresAt: undefined, updatedAt: now };
+        }
+
+        const retry = current.attempts < current.maxAttempts;
+        return {
+            ...current,
+            status: retry ? "pending" : "failed",
+            error: result.error,
+            runAfter: new Date(now.getTime() + SUMMARY_JOB_RETRY_MS * 2 ** (current.attempts - 1)),
+            leaseExpiresAt: undefined,
+            updatedAt: now,
+        };
+    });
+
+    if (!finished) {
+        console.warn(`⚠️ Summary job for meeting ${meetingId} was taken over by another worker`);
+        return;
+    }
+
+    if (finished.status === "done") {
+        await repo.update(meetingId, {
+            summary: result.summary,
+            structuredSummary: result.structuredSummary,
+            summaryStatus: "done",
+        });
+        console.log(`✅ Summary generated for meeting ${meetingId}`);
+        readyListeners.forEach((listener) => listener(meetingId, {
+            status: "done",
+            summary: result.summary,
+            structuredSummary: result.structuredSummary,
+        }));
+        return;
+    }
+
+    await repo.update(meetingId, { summaryStatus: finished.status, summaryError: result.error });
+
+    if (finished.status === "pending") {
+        console.warn(`⚠️ Summary failed for meeting ${meetingId}, retrying after ${finished.runAfter.toISOString()}: ${result.error}`);
+        return;
+    }
+
+    console.error(`❌ Summary failed for meeting ${meetingId}: ${result.error}`);
+    readyListeners.forEach((listener) => listener(meetingId, { status: "failed", error: result.error }));
+};
+
+/**
+ * Runs the jobs that are due, one at a time
+ * Calls made while a previous check is still running are skipped.
+ * 
+ * @returns {Promise<void>}
+ */
+const pollSummaryJobs = async (): Promise<void> => {
+    if (polling) {
+        return;
+    }
+
+    polling = true;
+    try {
+        const jobs = await getMeetingRepository().findDueSummaryJobs(new Date(), JOBS_PER_POLL);
+
+        for (const job of jobs) {
+            await runSummaryJob(job.meetingId).catch((err) =>
+                console.error(`Error running summary job for meeting ${job.meetingId}:`, err)
+            );
+        }
+    } catch (error) {
+        console.error("Error polling summary jobs:", error);
+    } finally {
+        polling = false;
+    }
+};
+
+/**
+ * Starts the worker of this instance, resuming jobs left over by a restart
+ */
+export const startSummaryWorker = (): void => {
+    if (pollTimer) {
+        return;
+    }
+
+    pollTimer = setInterval(() => pollSummaryJobs(), SUMMARY_POLL_INTERVAL_MS);
+    pollSummaryJobs();
+    console.log(`🧾 Summary worker ${WORKER_ID} started`);
+};
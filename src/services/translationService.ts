@@ -0,0 +1,126 @@
+/**
+ * Translation Service
+ *
+ * On-demand translation of chat messages through the LLM layer, and the
+ * per-participant auto-translate preference. Translations are cached on the
+ * message itself, per language, so every participant and server instance
+ * reuses them; editing or deleting a message clears its cache.
+ *
+ * @module services/translationService
+ */
+
+import { getMeetingRepository } from "../repositories/meetingRepository";
+import { isLanguageCode, LanguageCode } from "../utils/language";
+import { getMessage, mutateMeeting } from "./meetingService";
+import { translateText } from "./aiService";
+import type { MessageTranslation } from "../models/meeting";
+
+/**
+ * Translations in progress, so concurrent requests share one completion
+ */
+const inFlight = new Map<string, Promise<{ success: boolean; translation?: MessageTranslation; error?: string }>>();
+
+/**
+ * Translates a message the user can see, using the cached translation when there is one
+ *
+ * @param {string} meetingId - Meeting ID
+ * @param {string} messageId - Message ID
+ * @param {string} viewerUid - User asking for the translation
+ * @param {string} language - Target language code
+ * @returns {Promise<{success: boolean, translation?: MessageTranslation, error?: string}>}
+ */
+export const translateMessage = async (
+    meetingId: string,
+    messageId: string,
+    viewerUid: string,
+    language: string
+): Promise<{ success: boolean; translation?: MessageTranslation; error?: string }> => {
+    if (!isLanguageCode(language)) {
+        return { success: false, error: "Unsupported language" };
+    }
+
+    const message = await getMessage(meetingId, messageId, viewerUid);
+
+    if (!message) {
+        return { success: false, error: "Message not found" };
+    }
+
+    if (message.deleted) {
+        return { success: false, error: "Message was deleted" };
+    }
+
+    const cached = message.translations?.[language];
+
+    if (cached !== undefined) {
+        return { success: true, translation: { messageId, language, text: cached } };
+    }
+
+    const key = `${meetingId}:${messageId}:${language}`;
+    let pending = inFlight.get(key);
+
+    if (!pending) {
+        pending = (async () => {
+            const result = await translateText(message.text, language);
+
+            if (!result.success) {
+                return { success: false, error: "Translation failed, try again later" };
+            }
+
+            await getMeetingRepository().updateMessage(meetingId, messageId, (current) =>
+                // Not cached if the text changed while translating
+                current.text === message.text && !current.deleted
+                    ? { ...current, translations: { ...current.translations, [language]: result.text! } }
+                    : current
+            );
+
+            return { success: true, translation: { messageId, language, text: result.text! } };
+        })().finally(() => inFlight.delete(key));
+
+        inFlight.set(key, pending);
+    }
+
+    return pending;
+};
+
+/**
+ * Sets the language a participant's new messages are translated to
+ *
+ * @param {string} meetingId - Meeting ID
+ * @param {string} uid - Participant's user ID
+ * @param {string | null} language - Language code, or null to turn auto-translate off
+ * @returns {Promise<{success: boolean, language?: LanguageCode | null, error?: string}>}
+ */
+export const setAutoTranslate = async (
+    meetingId: string,
+    uid: string,
+    language: string | null
+): Promise<{ success: boolean; language?: LanguageCode | null; error?: string }> => {
+    if (language !== null && !isLanguageCode(language)) {
+        return { success: false, error: "Unsupported language" };
+    }
+
+    try {
+        return await mutateMeeting(meetingId, async (meeting) => {
+            const participant = meeting?.participants.find((p) => p.uid === uid);
+
+            if (!meeting || !participant) {
+                return { success: false, error: "You are not in this meeting" };
+            }
+
+            if (language) {
+                participant.autoTranslate = language;
+            } else {
+                delete participant.autoTranslate;
+            }
+
+            await getMeetingRepository().update(meetingId, {
+                participants: meeting.participants,
+            });
+
+            return { success: true, language };
+        });
+    } catch (error) {
+        console.error("Error setting auto-translate:", error);
+        return { success: false, error: "Failed to update meeting" };
+    }
+};
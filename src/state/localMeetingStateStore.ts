@@ -0,0 +1,93 @@
+/**
+ * Local Meeting State Store
+ * 
+ * Process-local MeetingStateStore. Locks are per-meeting promise chains,
+ * so it behaves like the shared store within a single instance.
+ * 
+ * @module state/localMeetingStateStore
+ */
+
+import type { Meeting } from "../models/meeting";
+import type { TypingUser } from "../utils/typingTracker";
+import type { MeetingStateStore } from "./meetingStateStore";
+
+/**
+ * Creates a process-local state store
+ * 
+ * @returns {MeetingStateStore} Store instance
+ */
+export const createLocalMeetingStateStore = (): MeetingStateStore => {
+    const meetings = new Map<string, Meeting>();
+    const locks = new Map<string, Promise<void>>();
+    const typing = new Map<string, Map<string, { name: string; expiresAt: number }>>();
+
+    /**
+     * Returns the typing entries of a meeting, without the expired ones
+     */
+    const getTyping = (meetingId: string, now: number) => {
+        const entries = typing.get(meetingId) || new Map<string, { name: string; expiresAt: number }>();
+
+        for (const [uid, entry] of entries) {
+            if (entry.expiresAt <= now) {
+                entries.delete(uid);
+            }
+        }
+        return entries;
+    };
+
+    return {
+        async get(meetingId: string): Promise<Meeting | null> {
+            return meetings.get(meetingId) || null;
+        },
+
+        async set(meeting: Meeting): Promise<void> {
+            meetings.set(meeting.meetingId, meeting);
+        },
+
+        async delete(meetingId: string): Promise<void> {
+            meetings.delete(meetingId);
+        },
+
+        async withLock<T>(meetingId: string, fn: () => Promise<T>): Promise<T> {
+            const previous = locks.get(meetingId) || Promise.resolve();
+            let release!: () => void;
+            const gate = new Promise<void>((resolve) => (release = resolve));
+            const current = previous.then(() => gate);
+            locks.set(meetingId, current);
+
+            await previous;
+            try {
+                return await fn();
+            } finally {
+                release();
+                if (locks.get(meetingId) === current) {
+                    locks.delete(meetingId);
+                }
+            }
+        },
+
+        async startTyping(meetingId: string, uid: string, name: string, ttlMs: number): Promise<boolean> {
+            const now = Date.now();
+            const entries = getTyping(meetingId, now);
+            const started = !entries.has(uid);
+
+            entries.set(uid, { name, expiresAt: now + ttlMs });
+            typing.set(meetingId, entries);
+            return started;
+        },
+
+        async stopTyping(meetingId: string, uid: string): Promise<boolean> {
+            const entries = getTyping(meetingId, Date.now());
+            const stopped = entries.delete(uid);
+
+            if (entries.size === 0) {
+                typing.delete(meetingId);
+            }
+            return stopped;
+        },
+
+        async listTyping(meetingId: string): Promise<TypingUser[]> {
+            return [...getTyping(meetingId, Date.now())].map(([uid, entry]) => ({ uid, name: entry.name }));
+        },
+    };
+};
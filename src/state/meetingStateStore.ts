@@ -0,0 +1,85 @@
+/**
+ * Meeting State Store
+ * 
+ * Cache of active meetings shared by every server instance. Reads go to the
+ * store before the repository, and every change to a meeting runs under the
+ * store's per-meeting lock so concurrent joins and leaves on different
+ * instances cannot overwrite each other. It also holds who is typing in each
+ * meeting, so every instance sees the same list. The implementation is selected
+ * through the STATE_DRIVER environment variable.
+ * 
+ * @module state/meetingStateStore
+ */
+
+import dotenv from "dotenv";
+import type { Meeting } from "../models/meeting";
+import type { TypingUser } from "../utils/typingTracker";
+import { createLocalMeetingStateStore } from "./localMeetingStateStore";
+import { createRedisMeetingStateStore } from "./redisMeetingStateStore";
+
+dotenv.config();
+
+/**
+ * Shared cache of active meetings
+ * @interface MeetingStateStore
+ */
+export interface MeetingStateStore {
+    /** Returns the cached meeting, or null if it is not cached */
+    get(meetingId: string): Promise<Meeting | null>;
+    /** Caches a meeting */
+    set(meeting: Meeting): Promise<void>;
+    /** Evicts a meeting from the cache */
+    delete(meetingId: string): Promise<void>;
+    /** Runs `fn` while holding the exclusive lock of a meeting */
+    withLock<T>(meetingId: string, fn: () => Promise<T>): Promise<T>;
+    /** Marks a user as typing for `ttlMs`; returns true if they were not typing yet */
+    startTyping(meetingId: string, uid: string, name: string, ttlMs: number): Promise<boolean>;
+    /** Marks a user as no longer typing; returns true if they were typing */
+    stopTyping(meetingId: string, uid: string): Promise<boolean>;
+    /** Lists the users typing in a meeting, on any instance */
+    listTyping(meetingId: string): Promise<TypingUser[]>;
+}
+
+/**
+ * Supported state drivers
+ * - memory: process-local cache and locks, for a single instance (default)
+ * - redis: shared through the Redis server at REDIS_URL
+ */
+export type StateDriver = "memory" | "redis";
+
+let store: MeetingStateStore | null = null;
+
+/**
+ * Returns the configured state store, creating it on first use
+ * 
+ * @returns {MeetingStateStore} Active store
+ * @throws {Error} If STATE_DRIVER is unknown
+ */
+export const getMeetingStateStore = (): MeetingStateStore => {
+    if (!store) {
+        const driver = (process.env.STATE_DRIVER || "memory") as StateDriver;
+
+        switch (driver) {
+            case "memory":
+                store = createLocalMeetingStateStore();
+                break;
+            case "redis":
+                store = createRedisMeetingStateStore(process.env.REDIS_URL || "redis://localhost:6379");
+                break;
+            default:
+                throw new Error(`Unknown state driver: ${driver}`);
+        }
+
+        console.log(`🧠 Using ${driver} meeting state store`);
+    }
+    return store;
+};
+
+/**
+ * Replaces the active store (useful for tests)
+ * 
+ * @param {MeetingStateStore} stateStore - Store to use
+ */
+export const setMeetingStateStore = (stateStore: MeetingStateStore): void => {
+    store = stateStore;
+};
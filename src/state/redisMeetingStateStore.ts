@@ -0,0 +1,173 @@
+/**
+ * Redis Meeting State Store
+ * 
+ * MeetingStateStore shared by every server instance through Redis.
+ * Meetings are cached as JSON; locks use `SET NX PX` with a random token,
+ * have their lease extended while held and are released only by their owner. Typing users are a hash per meeting
+ * whose entries carry their own expiry time.
+ * 
+ * @module state/redisMeetingStateStore
+ */
+
+import { randomUUID } from "crypto";
+import { createClient } from "redis";
+import type { Meeting } from "../models/meeting";
+import { reviveDates } from "../utils/serialization";
+import type { TypingUser } from "../utils/typingTracker";
+import type { MeetingStateStore } from "./meetingStateStore";
+
+/**
+ * Cached meetings expire after a day without changes
+ */
+const MEETING_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * A lock is released automatically if its owner dies while holding it
+ */
+const LOCK_TTL_MS = 10000;
+
+/**
+ * Interval at which a held lock's lease is extended while its work runs
+ */
+const LOCK_RENEW_MS = LOCK_TTL_MS / 3;
+
+/**
+ * Maximum time to wait for a lock before giving up
+ */
+const LOCK_WAIT_MS = 5000;
+
+/**
+ * Deletes the lock only if it still holds the caller's token
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+end
+return 0`;
+
+/**
+ * Stores a typing entry and returns 1 if the user was not typing before
+ * (no entry, or an expired one). The whole hash expires with its newest entry.
+ */
+const START_TYPING_SCRIPT = `
+local previous = redis.call("hget", KEYS[1], ARGV[1])
+redis.call("hset", KEYS[1], ARGV[1], ARGV[2])
+redis.call("pexpire", KEYS[1], ARGV[3])
+if previous and cjson.decode(previous).expiresAt > tonumber(ARGV[4]) then
+    return 0
+end
+return 1`;
+
+/**
+ * Extends the lock's lease only if it still holds the caller's token
+ */
+const RENEW_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const meetingKey = (meetingId: string) => `joinus:meeting:${meetingId}`;
+const lockKey = (meetingId: string) => `joinus:meeting-lock:${meetingId}`;
+const typingKey = (meetingId: string) => `joinus:typing:${meetingId}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a Redis-backed state store
+ * 
+ * @param {string} url - Redis connection URL
+ * @returns {MeetingStateStore} Store instance
+ */
+export const createRedisMeetingStateStore = (url: string): MeetingStateStore => {
+    const client = createClient({ url });
+    client.on("error", (err) => console.error("Redis state store error:", err));
+    const ready = client.connect();
+
+    return {
+        async get(meetingId: string): Promise<Meeting | null> {
+            await ready;
+            const raw = await client.get(meetingKey(meetingId));
+            return raw ? (JSON.parse(raw, reviveDates) as Meeting) : null;
+        },
+
+        async set(meeting: Meeting): Promise<void> {
+            await ready;
+            await client.set(meetingKey(meeting.meetingId), JSON.stringify(meeting), {
+                EX: MEETING_TTL_SECONDS,
+            });
+        },
+
+        async delete(meetingId: string): Promise<void> {
+            await ready;
+            await client.del(meetingKey(meetingId));
+        },
+
+        async withLock<T>(meetingId: string, fn: () => Promise<T>): Promise<T> {
+            await ready;
+            const token = randomUUID();
+            const deadline = Date.now() + LOCK_WAIT_MS;
+            let delay = 10;
+
+            while (!(await client.set(lockKey(meetingId), token, { NX: true, PX: LOCK_TTL_MS }))) {
+                if (Date.now() > deadline) {
+                    throw new Error(`Timed out waiting for lock on meeting ${meetingId}`);
+                }
+                await sleep(delay);
+                delay = Math.min(delay * 2, 200);
+            }
+
+            // Keep the lease while `fn` runs, however long its I/O takes
+            const renewal = setInterval(async () => {
+                try {
+                    const renewed = await client.eval(RENEW_LOCK_SCRIPT, {
+                        keys: [lockKey(meetingId)],
+                        arguments: [token, String(LOCK_TTL_MS)],
+                    });
+
+                    if (renewed !== 1) {
+                        console.error(`Lock on meeting ${meetingId} expired while held`);
+                    }
+                } catch (error) {
+                    console.error("Error renewing meeting lock:", error);
+                }
+            }, LOCK_RENEW_MS);
+
+            try {
+                return await fn();
+            } finally {
+                clearInterval(renewal);
+                await client.eval(RELEASE_LOCK_SCRIPT, {
+                    keys: [lockKey(meetingId)],
+                    arguments: [token],
+                });
+            }
+        },
+
+        async startTyping(meetingId: string, uid: string, name: string, ttlMs: number): Promise<boolean> {
+            await ready;
+            const now = Date.now();
+            const started = await client.eval(START_TYPING_SCRIPT, {
+                keys: [typingKey(meetingId)],
+                arguments: [uid, JSON.stringify({ name, expiresAt: now + ttlMs }), String(ttlMs), String(now)],
+            });
+            return started === 1;
+        },
+
+        async stopTyping(meetingId: string, uid: string): Promise<boolean> {
+            await ready;
+            return (await client.hDel(typingKey(meetingId), uid)) > 0;
+        },
+
+        async listTyping(meetingId: string): Promise<TypingUser[]> {
+            await ready;
+            const now = Date.now();
+            const entries = await client.hGetAll(typingKey(meetingId));
+
+            return Object.entries(entries)
+                .map(([uid, raw]) => ({ uid, ...(JSON.parse(raw) as { name: string; expiresAt: number }) }))
+                .filter((entry) => entry.expiresAt > now)
+                .map(({ uid, name }) => ({ uid, name }));
+        },
+    };
+};
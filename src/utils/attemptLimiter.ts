@@ -0,0 +1,92 @@
+/**
+ * Attempt Limiter
+ * 
+ * Fixed-window counter of failed attempts per key (socket ID, IP, ...).
+ * Used to slow down passcode guessing.
+ * 
+ * @module utils/attemptLimiter
+ */
+
+/**
+ * Number of tracked keys above which expired entries are swept
+ */
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * Limiter tracking failures per key
+ * @interface AttemptLimiter
+ */
+export interface AttemptLimiter {
+    /** Milliseconds until the key may try again, or 0 if it is not blocked */
+    retryAfter(key: string): number;
+    /** Records a failed attempt for the key */
+    recordFailure(key: string): void;
+    /** Forgets the key, e.g. after a success or when a socket disconnects */
+    reset(key: string): void;
+}
+
+/**
+ * Creates an attempt limiter
+ * 
+ * @param {number} maxAttempts - Failures allowed per window
+ * @param {number} windowMs - Window length in milliseconds
+ * @returns {AttemptLimiter} Limiter instance
+ */
+export const createAttemptLimiter = (maxAttempts: number, windowMs: number): AttemptLimiter => {
+    const attempts = new Map<string, { count: number; windowStart: number }>();
+
+    /**
+     * Drops every expired entry so keys that never come back do not pile up
+     */
+    const prune = (): void => {
+        const now = Date.now();
+        for (const [key, entry] of attempts) {
+            if (now - entry.windowStart >= windowMs) {
+                attempts.delete(key);
+            }
+        }
+    };
+
+    /**
+     * Returns the live entry for a key, dropping it if its window expired
+     */
+    const getEntry = (key: string) => {
+        const entry = attempts.get(key);
+
+        if (entry && Date.now() - entry.windowStart >= windowMs) {
+            attempts.delete(key);
+            return undefined;
+        }
+
+        return entry;
+    };
+
+    return {
+        retryAfter(key: string): number {
+            const entry = getEntry(key);
+
+            if (!entry || entry.count < maxAttempts) {
+                return 0;
+            }
+
+            return entry.windowStart + windowMs - Date.now();
+        },
+
+        recordFailure(key: string): void {
+            const entry = getEntry(key);
+
+            if (entry) {
+                entry.count++;
+            } else {
+                if (attempts.size >= MAX_TRACKED_KEYS) {
+                    prune();
+                }
+                attempts.set(key, { count: 1, windowStart: Date.now() });
+            }
+        },
+
+        reset(key: string): void {
+            attempts.delete(key);
+        },
+    };
+};
@@ -1,8 +1,10 @@
 /**
  * Firebase Admin Configuration
  * 
- * Initializes Firebase Admin SDK for Firestore access.
+ * Initializes Firebase Admin SDK for Firestore and Auth access.
  * Uses environment variables for credentials.
+ * Initialization is lazy so the server can run without Firebase
+ * when a local storage driver is configured.
  * 
  * @module utils/firebase
  */
@@ -28,17 +30,31 @@ const initializeFirebase = (): void => {
             }),
         });
 
+        admin.firestore().settings({ ignoreUndefinedProperties: true });
+
         console.log("✅ Firebase Admin initialized successfully");
     }
 };
 
-initializeFirebase();
+/**
+ * Returns the Firestore database instance, initializing Firebase on first use
+ * 
+ * @returns {admin.firestore.Firestore} Firestore instance
+ */
+export const getDb = (): admin.firestore.Firestore => {
+    initializeFirebase();
+    return admin.firestore();
+};
 
 /**
- * Firestore database instance
- * @constant
+ * Returns the Firebase Auth instance, initializing Firebase on first use
+ * 
+ * @returns {admin.auth.Auth} Auth instance
  */
-export const db = admin.firestore();
+export const getAuth = (): admin.auth.Auth => {
+    initializeFirebase();
+    return admin.auth();
+};
 
 /**
  * Firestore collections
@@ -46,5 +62,15 @@ export const db = admin.firestore();
  */
 export const COLLECTIONS = {
     MEETINGS: "meetings",
+    /** Subcollection of a meeting document holding its chat messages */
+    MESSAGES: "messages",
     USERS: "users",
+    /** Subcollection of a user document indexing the meetings they created or joined */
+    USER_MEETINGS: "meetings",
+    /** Summary generation jobs, one document per meeting */
+    SUMMARY_JOBS: "summaryJobs",
+    /** Subcollection of a meeting document auditing flagged messages */
+    MODERATION: "moderation",
+    /** Recurring meeting series, keyed by their stable join code */
+    MEETING_SERIES: "meetingSeries",
 } as const;
@@ -0,0 +1,122 @@
+/**
+ * Language Utilities
+ *
+ * Languages supported for meeting summaries and message translation, with
+ * the fixed texts that appear around LLM output in each of them.
+ *
+ * @module utils/language
+ */
+
+/**
+ * Supported language codes (ISO 639-1)
+ */
+export type LanguageCode = "es" | "en" | "pt" | "fr" | "de" | "it";
+
+/**
+ * Fixed texts of one language
+ * @interface LanguageTexts
+ */
+export interface LanguageTexts {
+    /** Language name as written in the (Spanish) prompts */
+    promptName: string;
+    /** Summary of a meeting without messages */
+    noMessages: string;
+    /** Catch-up of a period without messages */
+    noRecentMessages: (minutes: number) => string;
+    /** Section titles of a rendered structured summary */
+    keyPoints: string;
+    decisions: string;
+    actionItems: string;
+    topics: string;
+    /** Due date of an action item */
+    dueBefore: (date: string) => string;
+}
+
+const LANGUAGES: Record<LanguageCode, LanguageTexts> = {
+    es: {
+        promptName: "español",
+        noMessages: "No hubo mensajes en esta reunión.",
+        noRecentMessages: (minutes) => `No hubo mensajes en los últimos ${minutes} minutos.`,
+        keyPoints: "Puntos clave",
+        decisions: "Decisiones",
+        actionItems: "Tareas",
+        topics: "Temas",
+        dueBefore: (date) => `antes del ${date}`,
+    },
+    en: {
+        promptName: "inglés",
+        noMessages: "There were no messages in this meeting.",
+        noRecentMessages: (minutes) => `There were no messages in the last ${minutes} minutes.`,
+        keyPoints: "Key points",
+        decisions: "Decisions",
+        actionItems: "Action items",
+        topics: "Topics",
+        dueBefore: (date) => `due ${date}`,
+    },
+    pt: {
+        promptName: "portugués",
+        noMessages: "Não houve mensagens nesta reunião.",
+        noRecentMessages: (minutes) => `Não houve mensagens nos últimos ${minutes} minutos.`,
+        keyPoints: "Pontos-chave",
+        decisions: "Decisões",
+        actionItems: "Tarefas",
+        topics: "Temas",
+        dueBefore: (date) => `até ${date}`,
+    },
+    fr: {
+        promptName: "francés",
+        noMessages: "Il n'y a eu aucun message pendant cette réunion.",
+        noRecentMessages: (minutes) => `Aucun message au cours des ${minutes} dernières minutes.`,
+        keyPoints: "Points clés",
+        decisions: "Décisions",
+        actionItems: "Tâches",
+        topics: "Sujets",
+        dueBefore: (date) => `avant le ${date}`,
+    },
+    de: {
+        promptName: "alemán",
+        noMessages: "In diesem Meeting gab es keine Nachrichten.",
+        noRecentMessages: (minutes) => `In den letzten ${minutes} Minuten gab es keine Nachrichten.`,
+        keyPoints: "Kernpunkte",
+        decisions: "Entscheidungen",
+        actionItems: "Aufgaben",
+        topics: "Themen",
+        dueBefore: (date) => `bis ${date}`,
+    },
+    it: {
+        promptName: "italiano",
+        noMessages: "Non ci sono stati messaggi in questa riunione.",
+        noRecentMessages: (minutes) => `Nessun messaggio negli ultimi ${minutes} minuti.`,
+        keyPoints: "Punti chiave",
+        decisions: "Decisioni",
+        actionItems: "Attività",
+        topics: "Argomenti",
+        dueBefore: (date) => `entro il ${date}`,
+    },
+};
+
+/**
+ * Language of meetings created before languages were supported
+ */
+export const LEGACY_LANGUAGE: LanguageCode = "es";
+
+/**
+ * Checks whether a value is a supported language code
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the language is supported
+ */
+export const isLanguageCode = (value: unknown): value is LanguageCode => {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+};
+
+/**
+ * Returns the fixed texts of a language
+ * Unknown or missing codes fall back to the legacy language.
+ *
+ * @param {string} [language] - Language code
+ * @returns {LanguageTexts} Texts of the language
+ */
+export const getLanguageTexts = (language?: string): LanguageTexts => {
+    return LANGUAGES[isLanguageCode(language) ? language : LEGACY_LANGUAGE];
+};
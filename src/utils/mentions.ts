@@ -0,0 +1,47 @@
+/**
+ * Mention Utilities
+ * 
+ * Parses `@name` mentions in chat text against the current participants.
+ * 
+ * @module utils/mentions
+ */
+
+import type { Participant } from "../models/meeting";
+
+/**
+ * Escapes a string for use inside a regular expression
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Finds the participants mentioned in a message
+ * A mention is `@` followed by a participant's display name (case-insensitive)
+ * and not followed by another letter or digit. Longer names are matched first
+ * so "@Ann Lee" does not also count as a mention of "Ann".
+ * 
+ * @param {string} text - Message text
+ * @param {Participant[]} participants - Current participants of the meeting
+ * @returns {string[]} User IDs of the mentioned participants, without duplicates
+ */
+export const extractMentions = (text: string, participants: Participant[]): string[] => {
+    if (!text.includes("@")) {
+        return [];
+    }
+
+    const mentioned = new Set<string>();
+    let remaining = text;
+
+    const byNameLength = [...participants].sort((a, b) => b.name.length - a.name.length);
+
+    for (const participant of byNameLength) {
+        const pattern = new RegExp(`@${escapeRegExp(participant.name)}(?![\\p{L}\\p{N}])`, "giu");
+
+        if (pattern.test(remaining)) {
+            mentioned.add(participant.uid);
+            // Blank out matched mentions so shorter names cannot match inside them
+            remaining = remaining.replace(pattern, (match) => " ".repeat(match.length));
+        }
+    }
+
+    return [...mentioned];
+};
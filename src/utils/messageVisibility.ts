@@ -0,0 +1,46 @@
+/**
+ * Message Visibility
+ * 
+ * Rules for who may see a chat message. Public messages are visible to
+ * everyone in the meeting; private messages only to their sender and recipient,
+ * and messages held for host review only to their sender.
+ * 
+ * @module utils/messageVisibility
+ */
+
+import type { ChatMessage } from "../models/meeting";
+
+/**
+ * Checks whether a message is private
+ * 
+ * @param {ChatMessage} message - Message to check
+ * @returns {boolean} True if the message has a recipient
+ */
+export const isPrivateMessage = (message: ChatMessage): boolean => {
+    return !!message.recipientId;
+};
+
+/**
+ * Checks whether a message is seen by the whole meeting
+ * 
+ * @param {ChatMessage} message - Message to check
+ * @returns {boolean} True if the message is neither private nor held for review
+ */
+export const isPublicMessage = (message: ChatMessage): boolean => {
+    return !isPrivateMessage(message) && !message.heldForReview;
+};
+
+/**
+ * Checks whether a user may see a message
+ * 
+ * @param {ChatMessage} message - Message to check
+ * @param {string} uid - User ID of the viewer
+ * @returns {boolean} True if the message is public or the user is its sender or recipient
+ */
+export const isMessageVisibleTo = (message: ChatMessage, uid: string): boolean => {
+    if (message.heldForReview) {
+        return message.userId === uid;
+    }
+
+    return !isPrivateMessage(message) || message.userId === uid || message.recipientId === uid;
+};
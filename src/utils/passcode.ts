@@ -0,0 +1,64 @@
+/**
+ * Passcode Utilities
+ * 
+ * Hashing and verification of meeting passcodes with scrypt.
+ * Only the hash is ever stored.
+ * 
+ * @module utils/passcode
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+    password: string,
+    salt: Buffer,
+    keylen: number
+) => Promise<Buffer>;
+
+/**
+ * Length of the derived key in bytes
+ */
+const KEY_LENGTH = 32;
+
+/**
+ * Validates a passcode chosen by a host
+ * Passcodes must be 4 to 64 characters
+ * 
+ * @param {unknown} passcode - Passcode to validate
+ * @returns {boolean} True if valid, false otherwise
+ */
+export const isValidPasscode = (passcode: unknown): passcode is string => {
+    return typeof passcode === "string" && passcode.length >= 4 && passcode.length <= 64;
+};
+
+/**
+ * Hashes a passcode with a random salt
+ * 
+ * @param {string} passcode - Plain passcode
+ * @returns {Promise<string>} Hash in the form `scrypt$<salt>$<hash>` (hex)
+ */
+export const hashPasscode = async (passcode: string): Promise<string> => {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(passcode, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+/**
+ * Checks a passcode against a stored hash in constant time
+ * 
+ * @param {string} passcode - Passcode to check
+ * @param {string} stored - Hash produced by hashPasscode
+ * @returns {Promise<boolean>} True if the passcode matches
+ */
+export const verifyPasscode = async (passcode: string, stored: string): Promise<boolean> => {
+    const [scheme, saltHex, hashHex] = stored.split("$");
+
+    if (scheme !== "scrypt" || !saltHex || !hashHex || typeof passcode !== "string") {
+        return false;
+    }
+
+    const expected = Buffer.from(hashHex, "hex");
+    const actual = await scryptAsync(passcode, Buffer.from(saltHex, "hex"), expected.length);
+    return timingSafeEqual(expected, actual);
+};
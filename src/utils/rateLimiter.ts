@@ -0,0 +1,138 @@
+/**
+ * Rate Limiter
+ *
+ * Token buckets per key (socket ID, uid, meeting ID, ...). Each bucket holds
+ * up to `capacity` tokens and refills at a steady rate, so clients can send
+ * short bursts but not a sustained flood.
+ *
+ * @module utils/rateLimiter
+ */
+
+/**
+ * Number of tracked keys above which full buckets are swept
+ */
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * Size and refill rate of a bucket
+ * @interface RateLimit
+ */
+export interface RateLimit {
+    /** Tokens available in a burst; 0 disables the limit */
+    capacity: number;
+    /** Time to refill the whole bucket, in milliseconds */
+    windowMs: number;
+}
+
+/**
+ * Limiter keeping one token bucket per key
+ * @interface RateLimiter
+ */
+export interface RateLimiter {
+    /** Milliseconds until the key has `cost` tokens, or 0 if it has them now */
+    retryAfter(key: string, cost?: number): number;
+    /** Takes `cost` tokens if available; returns 0 on success, or the time to wait */
+    consume(key: string, cost?: number): number;
+    /** Forgets the key, e.g. when a socket disconnects */
+    reset(key: string): void;
+}
+
+/**
+ * Parses a limit written as "<tokens>/<seconds>", e.g. "20/10" for bursts of
+ * 20 refilled over 10 seconds; "0" disables the limit. A window of 0 seconds
+ * counts as malformed.
+ *
+ * @param {string | undefined} spec - Limit from the environment
+ * @param {string} fallback - Limit used when `spec` is missing or malformed
+ * @returns {RateLimit} Parsed limit
+ */
+export const parseRateLimit = (spec: string | undefined, fallback: string): RateLimit => {
+    const match = /^\s*(\d+)\s*(?:\/\s*(\d+(?:\.\d+)?)\s*)?$/.exec(spec ?? "");
+
+    // A limit needs a window to refill over; "20/0" would never run out
+    if (!match || (match[1] !== "0" && !(Number(match[2]) > 0))) {
+        return parseRateLimit(fallback, "0");
+    }
+
+    return {
+        capacity: Number(match[1]),
+        windowMs: Number(match[2] ?? 0) * 1000,
+    };
+};
+
+/**
+ * Creates a token-bucket rate limiter
+ *
+ * @param {RateLimit} limit - Bucket size and refill window
+ * @returns {RateLimiter} Limiter instance
+ */
+export const createRateLimiter = ({ capacity, windowMs }: RateLimit): RateLimiter => {
+    const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+    const tokensPerMs = windowMs > 0 ? capacity / windowMs : Infinity;
+
+    /**
+     * Returns the bucket of a key with the tokens refilled since its last update
+     */
+    const getBucket = (key: string, now: number) => {
+        const bucket = buckets.get(key);
+
+        if (!bucket) {
+            return { tokens: capacity, updatedAt: now };
+        }
+
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * tokensPerMs);
+        bucket.updatedAt = now;
+        return bucket;
+    };
+
+    /**
+     * Drops every bucket that has refilled, so keys that never come back do not pile up
+     */
+    const prune = (now: number): void => {
+        for (const key of buckets.keys()) {
+            if (getBucket(key, now).tokens >= capacity) {
+                buckets.delete(key);
+            }
+        }
+    };
+
+    const waitFor = (tokens: number, cost: number): number => {
+        return tokens >= cost ? 0 : Math.ceil((cost - tokens) / tokensPerMs);
+    };
+
+    return {
+        retryAfter(key: string, cost: number = 1): number {
+            if (capacity === 0) {
+                return 0;
+            }
+
+            return waitFor(getBucket(key, Date.now()).tokens, cost);
+        },
+
+        consume(key: string, cost: number = 1): number {
+            if (capacity === 0) {
+                return 0;
+            }
+
+            const now = Date.now();
+            const bucket = getBucket(key, now);
+            const wait = waitFor(bucket.tokens, cost);
+
+            if (wait > 0) {
+                return wait;
+            }
+
+            if (!buckets.has(key) && buckets.size >= MAX_TRACKED_KEYS) {
+                prune(now);
+            }
+
+            bucket.tokens -= cost;
+            buckets.set(key, bucket);
+            return 0;
+        },
+
+        reset(key: string): void {
+            buckets.delete(key);
+        },
+    };
+};
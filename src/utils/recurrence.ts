@@ -0,0 +1,147 @@
+/**
+ * Recurrence Utilities
+ *
+ * Occurrence times of recurring meetings. Occurrences keep the wall-clock
+ * start time of the first one in the series' time zone, so a weekly 10:00
+ * meeting stays at 10:00 local time when daylight saving time changes.
+ *
+ * @module utils/recurrence
+ */
+
+import type { RecurrenceFrequency, RecurrenceRule } from "../models/meeting";
+
+/**
+ * Days between two occurrences for an interval of 1
+ */
+const FREQUENCY_DAYS: Record<RecurrenceFrequency, number> = {
+    daily: 1,
+    weekly: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start and end of one occurrence
+ * @interface Occurrence
+ */
+export interface Occurrence {
+    /** Position in the series, starting at 0 */
+    index: number;
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Checks whether a value is a supported recurrence frequency
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the frequency is supported
+ */
+export const isRecurrenceFrequency = (value: unknown): value is RecurrenceFrequency => {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(FREQUENCY_DAYS, value);
+};
+
+/**
+ * Returns the wall-clock fields of a time in a time zone, as a UTC timestamp
+ *
+ * @param {number} time - Timestamp in milliseconds
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Timestamp whose UTC fields are the local date and time
+ */
+const toWallClock = (time: number, timeZone: string): number => {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+            hourCycle: "h23",
+        })
+            .formatToParts(new Date(time))
+            .map((part) => [part.type, Number(part.value)])
+    );
+
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) +
+        (time % 1000);
+};
+
+/**
+ * Converts a wall-clock time of a time zone back to a timestamp
+ * Times skipped by a daylight saving change move forward by the gap.
+ *
+ * @param {number} wallClock - Local date and time, as a UTC timestamp
+ * @param {string} timeZone - IANA time zone
+ * @returns {number} Timestamp in milliseconds
+ */
+const fromWallClock = (wallClock: number, timeZone: string): number => {
+    // The offset at the guess may differ from the one at the result near a change, so refine once
+    const guess = wallClock - (toWallClock(wallClock, timeZone) - wallClock);
+    return wallClock - (toWallClock(guess, timeZone) - guess);
+};
+
+/**
+ * Returns the occurrence at a position of a series
+ *
+ * @param {Date} firstStart - Start of the first occurrence
+ * @param {number} durationMinutes - Length of each occurrence
+ * @param {RecurrenceRule} rule - Repetition rule
+ * @param {number} index - Position, starting at 0
+ * @returns {Occurrence} The occurrence
+ */
+export const getOccurrence = (
+    firstStart: Date,
+    durationMinutes: number,
+    rule: RecurrenceRule,
+    index: number
+): Occurrence => {
+    const days = index * rule.interval * FREQUENCY_DAYS[rule.frequency];
+    const wallClock = toWallClock(firstStart.getTime(), rule.timeZone) + days * DAY_MS;
+    const start = new Date(fromWallClock(wallClock, rule.timeZone));
+
+    return {
+        index,
+        start,
+        end: new Date(start.getTime() + durationMinutes * 60 * 1000),
+    };
+};
+
+/**
+ * Checks whether a position is within the series' count and end date
+ */
+const isWithinRule = (rule: RecurrenceRule, occurrence: Occurrence): boolean => {
+    return (rule.count === undefined || occurrence.index < rule.count) &&
+        (!rule.until || occurrence.start <= rule.until);
+};
+
+/**
+ * Returns the occurrence that is running at a time, or the next one to start
+ *
+ * @param {Date} firstStart - Start of the first occurrence
+ * @param {number} durationMinutes - Length of each occurrence
+ * @param {RecurrenceRule} rule - Repetition rule
+ * @param {Date} now - Time to look from
+ * @returns {Occurrence | null} The first occurrence not over at `now`, or null when the series is over
+ */
+export const findCurrentOccurrence = (
+    firstStart: Date,
+    durationMinutes: number,
+    rule: RecurrenceRule,
+    now: Date
+): Occurrence | null => {
+    const periodMs = rule.interval * FREQUENCY_DAYS[rule.frequency] * DAY_MS;
+
+    // Estimate from the elapsed time, then step forward; the estimate can be
+    // off by one around daylight saving changes
+    let index = Math.max(0, Math.floor((now.getTime() - firstStart.getTime()) / periodMs) - 1);
+    let occurrence = getOccurrence(firstStart, durationMinutes, rule, index);
+
+    while (occurrence.end <= now) {
+        index += 1;
+        occurrence = getOccurrence(firstStart, durationMinutes, rule, index);
+    }
+
+    return isWithinRule(rule, occurrence) ? occurrence : null;
+};
@@ -0,0 +1,84 @@
+/**
+ * Repeat Detector
+ *
+ * Catches a sender posting the same text again and again. Texts are
+ * compared ignoring case and whitespace, within a sliding window.
+ *
+ * @module utils/repeatDetector
+ */
+
+/**
+ * Number of tracked keys above which expired entries are swept
+ */
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * Detector of repeated texts per key (e.g. meeting and sender)
+ * @interface RepeatDetector
+ */
+export interface RepeatDetector {
+    /**
+     * Records a text for the key unless it was already sent too often; returns 0
+     * when it was recorded, or the milliseconds until it would be accepted
+     */
+    check(key: string, text: string): number;
+}
+
+/**
+ * Reduces a text to what makes it a repeat
+ */
+const fingerprint = (text: string): string => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Creates a repeat detector
+ *
+ * @param {number} maxCopies - Identical texts accepted per window; 0 disables detection
+ * @param {number} windowMs - Window length in milliseconds
+ * @returns {RepeatDetector} Detector instance
+ */
+export const createRepeatDetector = (maxCopies: number, windowMs: number): RepeatDetector => {
+    const recent = new Map<string, { text: string; sentAt: number }[]>();
+
+    /**
+     * Returns the entries of a key still inside the window
+     */
+    const getEntries = (key: string, now: number) => {
+        return (recent.get(key) || []).filter((entry) => now - entry.sentAt < windowMs);
+    };
+
+    /**
+     * Drops every key without entries left in the window
+     */
+    const prune = (now: number): void => {
+        for (const key of recent.keys()) {
+            if (getEntries(key, now).length === 0) {
+                recent.delete(key);
+            }
+        }
+    };
+
+    return {
+        check(key: string, text: string): number {
+            if (maxCopies <= 0) {
+                return 0;
+            }
+
+            const now = Date.now();
+            const entries = getEntries(key, now);
+            const value = fingerprint(text);
+            const copies = entries.filter((entry) => entry.text === value);
+
+            if (copies.length >= maxCopies) {
+                return copies[0].sentAt + windowMs - now;
+            }
+
+            if (!recent.has(key) && recent.size >= MAX_TRACKED_KEYS) {
+                prune(now);
+            }
+
+            entries.push({ text: value, sentAt: now });
+            recent.set(key, entries);
+            return 0;
+        },
+    };
+};
@@ -0,0 +1,54 @@
+/**
+ * Retry
+ * 
+ * Retries an async operation with exponential backoff. Errors carrying an
+ * HTTP `status` that will not change on retry (4xx other than 408 and 429)
+ * fail immediately.
+ * 
+ * @module utils/retry
+ */
+
+/**
+ * Checks whether an error is worth retrying
+ * 
+ * @param {unknown} error - Error thrown by the operation
+ * @returns {boolean} False for client errors such as bad requests or invalid keys
+ */
+export const isRetryableError = (error: unknown): boolean => {
+    const status = (error as { status?: unknown })?.status;
+
+    if (typeof status !== "number") {
+        return true;
+    }
+    return status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * Runs an operation, retrying failures with exponential backoff
+ * The delay doubles after each failure: baseDelayMs, 2 × baseDelayMs, ...
+ * 
+ * @param {Function} operation - Operation to run; receives the attempt number, starting at 1
+ * @param {number} maxAttempts - Total number of attempts
+ * @param {number} baseDelayMs - Delay before the second attempt
+ * @returns {Promise<T>} Result of the first successful attempt
+ * @throws The last error if every attempt fails or the error is not retryable
+ */
+export const withRetries = async <T>(
+    operation: (attempt: number) => Promise<T>,
+    maxAttempts: number,
+    baseDelayMs: number
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            if (attempt >= maxAttempts || !isRetryableError(error)) {
+                throw error;
+            }
+
+            const delay = baseDelayMs * 2 ** (attempt - 1);
+            console.warn(`⚠️ Attempt ${attempt}/${maxAttempts} failed, retrying in ${delay}ms:`, (error as Error)?.message || error);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+};
@@ -0,0 +1,49 @@
+/**
+ * Serialization Utilities
+ * 
+ * JSON helpers for meeting data stored outside Firestore
+ * (local storage file, shared state store).
+ * 
+ * @module utils/serialization
+ */
+
+/**
+ * Keys whose values are revived as Date objects when parsing JSON
+ */
+const DATE_FIELDS = new Set([
+    "createdAt",
+    "joinedAt",
+    "requestedAt",
+    "timestamp",
+    "editedAt",
+    "deletedAt",
+    "messageTimestamp",
+    "readAt",
+    "disconnectedAt",
+    "updatedAt",
+    "runAfter",
+    "leaseExpiresAt",
+    "meetingCreatedAt",
+    "lastJoinedAt",
+    "endedAt",
+    "scheduledStart",
+    "scheduledEnd",
+    "lastActivityAt",
+    "firstStart",
+    "until",
+    "reviewedAt",
+]);
+
+/**
+ * JSON reviver restoring Date fields
+ * 
+ * @param {string} key - Property name
+ * @param {unknown} value - Parsed value
+ * @returns {unknown} Date for known date fields, the value otherwise
+ */
+export const reviveDates = (key: string, value: unknown): unknown => {
+    if (DATE_FIELDS.has(key) && typeof value === "string") {
+        return new Date(value);
+    }
+    return value;
+};
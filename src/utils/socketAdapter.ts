@@ -0,0 +1,55 @@
+/**
+ * Socket.IO Adapter
+ * 
+ * Selects how Socket.IO rooms and broadcasts are shared. With the default
+ * in-memory adapter rooms only exist in this process; the Redis adapter
+ * relays broadcasts through Redis pub/sub so several server instances
+ * behind a load balancer see the same rooms.
+ * 
+ * @module utils/socketAdapter
+ */
+
+import dotenv from "dotenv";
+import type { Server } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { createClient } from "redis";
+
+dotenv.config();
+
+/**
+ * Supported adapters
+ * - memory: single instance (default)
+ * - redis: rooms shared through the Redis server at REDIS_URL
+ */
+export type SocketAdapterDriver = "memory" | "redis";
+
+/**
+ * Attaches the adapter selected by SOCKET_ADAPTER to a Socket.IO server
+ * Must be awaited before the HTTP server starts listening.
+ * 
+ * @param {Server} io - Socket.IO server
+ * @returns {Promise<void>}
+ * @throws {Error} If SOCKET_ADAPTER is unknown or Redis is unreachable
+ */
+export const configureSocketAdapter = async (io: Server): Promise<void> => {
+    const driver = (process.env.SOCKET_ADAPTER || "memory") as SocketAdapterDriver;
+
+    switch (driver) {
+        case "memory":
+            break;
+        case "redis": {
+            const pubClient = createClient({ url: process.env.REDIS_URL || "redis://localhost:6379" });
+            const subClient = pubClient.duplicate();
+            pubClient.on("error", (err) => console.error("Redis adapter error:", err));
+            subClient.on("error", (err) => console.error("Redis adapter error:", err));
+
+            await Promise.all([pubClient.connect(), subClient.connect()]);
+            io.adapter(createAdapter(pubClient, subClient));
+            break;
+        }
+        default:
+            throw new Error(`Unknown socket adapter: ${driver}`);
+    }
+
+    console.log(`🔀 Using ${driver} Socket.IO adapter`);
+};
@@ -0,0 +1,201 @@
+/**
+ * Structured Summary Utilities
+ * 
+ * Parsing, validation and rendering of the JSON summaries returned by the
+ * LLM. Model output is untrusted: it may be wrapped in code fences, carry
+ * trailing commas or miss fields, so it is repaired where that is safe and
+ * rejected with a reason otherwise.
+ * 
+ * @module utils/structuredSummary
+ */
+
+import type { ActionItem, StructuredSummary } from "../models/meeting";
+import { getLanguageTexts } from "./language";
+
+/**
+ * Maximum number of entries kept per list and characters per entry
+ */
+const MAX_ITEMS = 20;
+const MAX_ITEM_LENGTH = 500;
+
+/**
+ * Someone who took part in the meeting, used to resolve assignees
+ * @interface SummaryParticipant
+ */
+export interface SummaryParticipant {
+    uid: string;
+    name: string;
+}
+
+/**
+ * Normalizes a name for comparison: lowercase, without accents or a leading "@"
+ */
+const normalizeName = (name: string): string =>
+    name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/^@/, "").trim().toLowerCase();
+
+/**
+ * Extracts the JSON object from model output and fixes common syntax slips
+ * (code fences, text around the object, trailing commas)
+ * 
+ * @param {string} raw - Model output
+ * @returns {unknown} Parsed value
+ * @throws {Error} If no JSON object can be parsed
+ */
+const parseJsonObject = (raw: string): unknown => {
+    const start = raw.indexOf("{");
+    const end = raw.lastIndexOf("}");
+
+    if (start === -1 || end <= start) {
+        throw new Error("No JSON object found in the response");
+    }
+
+    const candidate = raw.slice(start, end + 1);
+
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        return JSON.parse(candidate.replace(/,\s*([}\]])/g, "$1"));
+    }
+};
+
+/**
+ * Validates a list of strings, trimming entries and dropping empty ones
+ * 
+ * @param {unknown} value - Value to check
+ * @param {string} field - Field name, for the error message
+ * @returns {string[]} Clean list
+ * @throws {Error} If the value is present but not a list of strings
+ */
+const toStringList = (value: unknown, field: string): string[] => {
+    if (value === undefined || value === null) {
+        return [];
+    }
+
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        throw new Error(`"${field}" must be an array of strings`);
+    }
+
+    return value
+        .map((item: string) => item.trim().slice(0, MAX_ITEM_LENGTH))
+        .filter((item) => item.length > 0)
+        .slice(0, MAX_ITEMS);
+};
+
+/**
+ * Checks that a string is a real calendar date in YYYY-MM-DD form
+ */
+const isIsoDate = (value: string): boolean => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return false;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Validates an action item and resolves its assignee against the participants
+ * 
+ * @param {unknown} value - Item from the model output
+ * @param {SummaryParticipant[]} participants - People who took part in the meeting
+ * @returns {ActionItem} Clean item
+ * @throws {Error} If the item has no description
+ */
+const toActionItem = (value: unknown, participants: SummaryParticipant[]): ActionItem => {
+    const item = (value || {}) as Record<string, unknown>;
+    const description = typeof item.description === "string" ? item.description.trim() : "";
+
+    if (!description) {
+        throw new Error("Every action item needs a \"description\"");
+    }
+
+    const result: ActionItem = { description: description.slice(0, MAX_ITEM_LENGTH) };
+    const assignee = typeof item.assignee === "string" ? item.assignee.trim() : "";
+
+    if (assignee) {
+        const match = participants.find((p) => p.uid === assignee) ||
+            participants.find((p) => normalizeName(p.name) === normalizeName(assignee));
+
+        result.assigneeName = match?.name || assignee.replace(/^@/, "");
+        if (match) {
+            result.assigneeUid = match.uid;
+        }
+    }
+
+    if (typeof item.dueDate === "string" && isIsoDate(item.dueDate.trim())) {
+        result.dueDate = item.dueDate.trim();
+    }
+
+    return result;
+};
+
+/**
+ * Parses and validates a structured summary returned by the model
+ * 
+ * @param {string} raw - Model output
+ * @param {SummaryParticipant[]} participants - People who took part, to resolve assignees
+ * @returns {{summary?: StructuredSummary, error?: string}} Valid summary, or why it was rejected
+ */
+export const parseStructuredSummary = (
+    raw: string,
+    participants: SummaryParticipant[]
+): { summary?: StructuredSummary; error?: string } => {
+    try {
+        const data = parseJsonObject(raw);
+
+        if (!data || typeof data !== "object" || Array.isArray(data)) {
+            return { error: "The response must be a JSON object" };
+        }
+
+        const fields = data as Record<string, unknown>;
+
+        if (fields.actionItems !== undefined && !Array.isArray(fields.actionItems)) {
+            return { error: "\"actionItems\" must be an array" };
+        }
+
+        const summary: StructuredSummary = {
+            keyPoints: toStringList(fields.keyPoints, "keyPoints"),
+            decisions: toStringList(fields.decisions, "decisions"),
+            actionItems: ((fields.actionItems as unknown[]) || [])
+                .slice(0, MAX_ITEMS)
+                .map((item) => toActionItem(item, participants)),
+            topics: toStringList(fields.topics, "topics"),
+        };
+
+        if (summary.keyPoints.length === 0 && summary.decisions.length === 0 &&
+            summary.actionItems.length === 0 && summary.topics.length === 0) {
+            return { error: "The summary is empty" };
+        }
+
+        return { summary };
+    } catch (error: any) {
+        return { error: error?.message || "Invalid JSON" };
+    }
+};
+
+/**
+ * Renders a structured summary as readable text, used as the meeting's `summary`
+ * 
+ * @param {StructuredSummary} summary - Structured summary
+ * @param {string} [language] - Language of the section titles
+ * @returns {string} Markdown text
+ */
+export const renderStructuredSummary = (summary: StructuredSummary, language?: string): string => {
+    const texts = getLanguageTexts(language);
+    const sections: string[] = [];
+    const list = (title: string, items: string[]) => {
+        if (items.length > 0) {
+            sections.push(`**${title}**\n${items.map((item) => `- ${item}`).join("\n")}`);
+        }
+    };
+
+    list(texts.keyPoints, summary.keyPoints);
+    list(texts.decisions, summary.decisions);
+    list(texts.actionItems, summary.actionItems.map((item) => {
+        const owner = item.assigneeName ? ` (${item.assigneeName})` : "";
+        const due = item.dueDate ? ` — ${texts.dueBefore(item.dueDate)}` : "";
+        return `${item.description}${owner}${due}`;
+    }));
+    list(texts.topics, summary.topics);
+
+    return sections.join("\n\n");
+};
@@ -0,0 +1,109 @@
+/**
+ * Transcript Chunker
+ * 
+ * Splits long chat transcripts into pieces that fit in one LLM prompt.
+ * Token counts are estimated from text length (about four characters per
+ * token), which is close enough for budgeting across tokenizers.
+ * 
+ * @module utils/transcriptChunker
+ */
+
+import type { ChatMessage } from "../models/meeting";
+
+/**
+ * Average characters per token used for estimates
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Characters added per transcript line for the author, timestamp and indentation
+ */
+const LINE_OVERHEAD_CHARS = 40;
+
+/**
+ * Estimates how many tokens a text uses
+ * 
+ * @param {string} text - Text to measure
+ * @returns {number} Estimated token count
+ */
+export const estimateTokens = (text: string): number => {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Estimates the tokens one message takes in the transcript
+ * 
+ * @param {ChatMessage} message - Chat message
+ * @returns {number} Estimated token count
+ */
+export const estimateMessageTokens = (message: ChatMessage): number => {
+    return Math.ceil((message.userName.length + message.text.length + LINE_OVERHEAD_CHARS) / CHARS_PER_TOKEN);
+};
+
+/**
+ * Splits items into consecutive chunks of at most `maxTokens` each
+ * Items are never split; an item larger than the budget gets a chunk of its own.
+ * 
+ * @param {T[]} items - Items in order (messages, partial summaries...)
+ * @param {number} maxTokens - Token budget per chunk
+ * @param {Function} measure - Estimates the tokens of one item
+ * @returns {T[][]} Chunks in order; empty when there are no items
+ */
+export const chunkByTokens = <T>(
+    items: T[],
+    maxTokens: number,
+    measure: (item: T) => number
+): T[][] => {
+    const chunks: T[][] = [];
+    let current: T[] = [];
+    let currentTokens = 0;
+
+    for (const item of items) {
+        const tokens = measure(item);
+
+        if (current.length > 0 && currentTokens + tokens > maxTokens) {
+            chunks.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+
+        current.push(item);
+        currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+};
+
+/**
+ * Keeps the most recent items that fit in `maxTokens`
+ * The newest item is always kept, even if it alone exceeds the budget.
+ * 
+ * @param {T[]} items - Items ordered oldest to newest
+ * @param {number} maxTokens - Token budget
+ * @param {Function} measure - Estimates the tokens of one item
+ * @returns {T[]} Suffix of `items` within the budget, oldest first
+ */
+export const takeLastByTokens = <T>(
+    items: T[],
+    maxTokens: number,
+    measure: (item: T) => number
+): T[] => {
+    let start = items.length;
+    let total = 0;
+
+    while (start > 0) {
+        const tokens = measure(items[start - 1]);
+
+        if (start < items.length && total + tokens > maxTokens) {
+            break;
+        }
+
+        total += tokens;
+        start--;
+    }
+
+    return items.slice(start);
+};
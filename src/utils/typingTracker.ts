@@ -0,0 +1,103 @@
+/**
+ * Typing Tracker
+ * 
+ * Keeps track of who is composing a message in each meeting. The lists live
+ * in the meeting state store, so they are shared by every instance; the
+ * instance a user is connected to throttles their repeated starts and
+ * expires them if the client stops sending `typing-start` without a
+ * `typing-stop`.
+ * 
+ * @module utils/typingTracker
+ */
+
+import type { MeetingStateStore } from "../state/meetingStateStore";
+
+/**
+ * A user currently typing
+ * @interface TypingUser
+ */
+export interface TypingUser {
+    uid: string;
+    name: string;
+}
+
+/**
+ * Typing state for all meetings
+ * @interface TypingTracker
+ */
+export interface TypingTracker {
+    /** Marks a user as typing; resolves to true if the meeting's typing list changed */
+    start(meetingId: string, uid: string, name: string): Promise<boolean>;
+    /** Marks a user as no longer typing; resolves to true if the meeting's typing list changed */
+    stop(meetingId: string, uid: string): Promise<boolean>;
+    /** Lists the users currently typing in a meeting */
+    list(meetingId: string): Promise<TypingUser[]>;
+}
+
+/**
+ * Creates a typing tracker
+ * 
+ * @param {MeetingStateStore} store - Store holding the typing lists of all instances
+ * @param {number} timeoutMs - Time after the last start before a user is no longer typing
+ * @param {number} throttleMs - Minimum time between two accepted starts from the same user
+ * @param {(meetingId: string) => void} onExpire - Called when an entry expires
+ * @returns {TypingTracker} Tracker instance
+ */
+export const createTypingTracker = (
+    store: MeetingStateStore,
+    timeoutMs: number,
+    throttleMs: number,
+    onExpire: (meetingId: string) => void
+): TypingTracker => {
+    // Users typing through this instance: "meetingId:uid" -> last accepted start
+    const local = new Map<string, { startedAt: number; timer: NodeJS.Timeout }>();
+
+    const stop = async (meetingId: string, uid: string): Promise<boolean> => {
+        const key = `${meetingId}:${uid}`;
+        const entry = local.get(key);
+
+        if (entry) {
+            clearTimeout(entry.timer);
+            local.delete(key);
+        }
+
+        return store.stopTyping(meetingId, uid);
+    };
+
+    return {
+        async start(meetingId: string, uid: string, name: string): Promise<boolean> {
+            const key = `${meetingId}:${uid}`;
+            const entry = local.get(key);
+            const now = Date.now();
+
+            if (entry && now - entry.startedAt < throttleMs) {
+                return false;
+            }
+
+            if (entry) {
+                clearTimeout(entry.timer);
+            }
+
+            // The store drops the entry at the same time, so the list changed either way
+            const timer = setTimeout(async () => {
+                try {
+                    if (local.get(key)?.timer === timer) {
+                        await stop(meetingId, uid);
+                        onExpire(meetingId);
+                    }
+                } catch (error) {
+                    console.error("Error expiring typing state:", error);
+                }
+            }, timeoutMs);
+
+            local.set(key, { startedAt: now, timer });
+            return store.startTyping(meetingId, uid, name, timeoutMs);
+        },
+
+        stop,
+
+        list(meetingId: string): Promise<TypingUser[]> {
+            return store.listTyping(meetingId);
+        },
+    };
+};
@@ -17,6 +17,17 @@ export const isValidMeetingId = (meetingId: string): boolean => {
     return /^\d{6}$/.test(meetingId);
 };
 
+/**
+ * Validates a meeting series ID format
+ * Series IDs are exactly 8 digits, so they never collide with meeting IDs
+ * 
+ * @param {string} seriesId - Series ID to validate
+ * @returns {boolean} True if valid, false otherwise
+ */
+export const isValidSeriesId = (seriesId: string): boolean => {
+    return /^\d{8}$/.test(seriesId);
+};
+
 /**
  * Validates user data for joining a meeting
  * 
@@ -43,6 +54,38 @@ export const isValidMessage = (text: string): boolean => {
     return typeof text === "string" && text.trim().length > 0 && text.length <= 1000;
 };
 
+/**
+ * Validates a meeting title
+ * 
+ * @param {unknown} title - Meeting title
+ * @returns {boolean} True if valid, false otherwise
+ */
+export const isValidMeetingTitle = (title: unknown): title is string => {
+    return typeof title === "string" && title.trim().length > 0 && title.length <= 120;
+};
+
+/**
+ * Validates a meeting duration
+ * Durations are whole minutes, up to one day
+ * 
+ * @param {unknown} minutes - Duration in minutes
+ * @returns {boolean} True if valid, false otherwise
+ */
+export const isValidDuration = (minutes: unknown): minutes is number => {
+    return typeof minutes === "number" && Number.isInteger(minutes) && minutes >= 1 && minutes <= 24 * 60;
+};
+
+/**
+ * Validates a reaction emoji
+ * Reactions must be a short string without whitespace
+ * 
+ * @param {string} emoji - Reaction emoji
+ * @returns {boolean} True if valid, false otherwise
+ */
+export const isValidReaction = (emoji: string): boolean => {
+    return typeof emoji === "string" && emoji.length > 0 && emoji.length <= 16 && !/\s/.test(emoji);
+};
+
 /**
  * Generates a random 6-digit meeting ID
  * 
@@ -51,3 +94,12 @@ export const isValidMessage = (text: string): boolean => {
 export const generateMeetingId = (): string => {
     return Math.floor(100000 + Math.random() * 900000).toString();
 };
+
+/**
+ * Generates a random 8-digit meeting series ID
+ * 
+ * @returns {string} 8-digit series ID
+ */
+export const generateSeriesId = (): string => {
+    return Math.floor(10000000 + Math.random() * 90000000).toString();
+};